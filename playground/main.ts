@@ -1,14 +1,14 @@
 import './reset.css'
 import './style.css'
 
-import { Player } from '../src'
+import { LocalStorageAdapter, Player } from '../src'
 
-const playerInstance = new Player()
+const playerInstance = new Player({ storage: new LocalStorageAdapter() })
 
 playerInstance.onQueueChange((queue) => {
 	let list_html = ''
 
-	for (const item of queue) {
+	for (const [index, item] of queue.entries()) {
 		let artwork_url = ''
 		const size = 0
 		for (const artwork of item.metadata?.artwork ?? []) {
@@ -20,7 +20,7 @@ playerInstance.onQueueChange((queue) => {
 				artwork_url = artwork.src
 			}
 		}
-		list_html += `<div class="queue_item">
+		list_html += `<div class="queue_item" data-index="${index}">
 						<div class="artwork">
 							${artwork_url === '' ? '' : `<img src="${artwork_url}" />`}
 						</div>
@@ -34,6 +34,13 @@ playerInstance.onQueueChange((queue) => {
 	document.getElementById('queue')!.innerHTML = list_html
 })
 
+// Click a queue item to play it
+document.getElementById('queue')?.addEventListener('click', (e: MouseEvent) => {
+	const item = (e.target as HTMLElement).closest<HTMLElement>('.queue_item')
+	if (!item?.dataset.index) return
+	playerInstance.playAt(parseInt(item.dataset.index, 10))
+})
+
 playerInstance.onPlayStateChange((state) => {
 	if (state) document.getElementById('play_pause_btn')!.innerHTML = `<i class="ri-pause-fill"></i>`
 	else document.getElementById('play_pause_btn')!.innerHTML = `<i class="ri-play-fill"></i>`
@@ -93,6 +100,9 @@ playerInstance.replaceQueue([
 	},
 ])
 
+// Resume the previous session if there is one
+playerInstance.restoreFromStorage()
+
 document.getElementById('play_pause_btn')?.addEventListener('click', () => {
 	playerInstance.togglePlaying()
 })
@@ -0,0 +1,95 @@
+/** Number of points of the generated fade curves */
+const CURVE_POINTS = 128
+
+/** Dynamic range of the exponential curve, in decibels */
+const EXPONENTIAL_RANGE_DB = 60
+
+/**
+ * Computes the gain of a fade-in at a point of the fade.
+ * @param {CrossfadeCurve} curve - The shape of the fade
+ * @param {number} progress - Progress of the fade, from 0 to 1
+ * @returns {number} The gain, from 0 to 1
+ */
+function fadeInGain(curve: CrossfadeCurve, progress: number): number {
+	switch (curve) {
+		case 'linear':
+			return progress
+		case 'equal_power':
+			return Math.sin((progress * Math.PI) / 2)
+		case 'exponential':
+			// Linear in decibels, so it sounds even to the ear
+			return progress === 0 ? 0 : 10 ** ((EXPONENTIAL_RANGE_DB * (progress - 1)) / 20)
+	}
+}
+
+/**
+ * Schedules a fade on a gain parameter, replacing any fade scheduled before.
+ * When the fade already started, it continues from the current point of the curve and still ends on time.
+ * @param {BaseAudioContext} context - The audio context of the parameter
+ * @param {AudioParam} param - The gain parameter to fade
+ * @param {CrossfadeCurve} curve - The shape of the fade
+ * @param {'in' | 'out'} direction - Whether to fade in (0 to 1) or out (1 to 0)
+ * @param {number} startTime - Context time at which the fade starts
+ * @param {number} duration - Duration of the fade, in seconds
+ */
+export function applyFade(
+	context: BaseAudioContext,
+	param: AudioParam,
+	curve: CrossfadeCurve,
+	direction: 'in' | 'out',
+	startTime: number,
+	duration: number,
+) {
+	const now = context.currentTime
+	const endTime = startTime + duration
+	const start = Math.max(startTime, now)
+	const target = direction === 'in' ? 1 : 0
+
+	param.cancelScheduledValues(0)
+	if (duration <= 0 || endTime <= start) {
+		param.setValueAtTime(target, now)
+		return
+	}
+
+	// Skip the part of the curve which is already over
+	const from = (start - startTime) / duration
+	const values = new Float32Array(CURVE_POINTS)
+	for (let i = 0; i < CURVE_POINTS; i++) {
+		const progress = from + ((1 - from) * i) / (CURVE_POINTS - 1)
+		values[i] = fadeInGain(curve, direction === 'in' ? progress : 1 - progress)
+	}
+
+	// Hold the initial gain until the fade starts
+	if (start > now) param.setValueAtTime(values[0], now)
+	param.setValueCurveAtTime(values, start, endTime - start)
+}
+
+/**
+ * Resets a gain parameter to a fixed value, cancelling any scheduled fade.
+ * @param {BaseAudioContext} context - The audio context of the parameter
+ * @param {AudioParam} param - The gain parameter
+ * @param {number} value - The gain to set
+ */
+export function resetGain(context: BaseAudioContext, param: AudioParam, value: number) {
+	param.cancelScheduledValues(0)
+	param.setValueAtTime(value, context.currentTime)
+}
+
+/**
+ * Ramps a gain parameter linearly from its current value to a target, cancelling any scheduled fade.
+ * Starting from the current value keeps the ramp continuous when it interrupts another one.
+ * @param {BaseAudioContext} context - The audio context of the parameter
+ * @param {AudioParam} param - The gain parameter
+ * @param {number} value - The gain to reach
+ * @param {number} duration - Duration of the ramp, in seconds
+ */
+export function rampGain(context: BaseAudioContext, param: AudioParam, value: number, duration: number) {
+	const now = context.currentTime
+	param.cancelScheduledValues(0)
+	param.setValueAtTime(param.value, now)
+	if (duration <= 0) {
+		param.setValueAtTime(value, now)
+		return
+	}
+	param.linearRampToValueAtTime(value, now + duration)
+}
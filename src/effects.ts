@@ -0,0 +1,220 @@
+import { rampGain } from './crossfade'
+import log from './debug'
+import { createId } from './id'
+
+/** Duration of the crossfade between the effect and the dry signal when bypassing, in seconds */
+const BYPASS_RAMP_DURATION = 0.02
+
+/**
+ * An effect in the chain. The effect is wrapped between a wet and a dry path,
+ * so it can be bypassed by fading between them without reconnecting anything.
+ */
+interface EffectSlot {
+	/** Unique ID of the effect */
+	id: string
+	/** Name of the effect */
+	name: string
+	/** Whether the effect is bypassed */
+	bypassed: boolean
+	/** Node the chain connects to */
+	input: GainNode
+	/** Node the chain continues from */
+	output: GainNode
+	/** Gain of the processed signal */
+	wet: GainNode
+	/** Gain of the unprocessed signal */
+	dry: GainNode
+	/** First node of the effect */
+	effectInput: AudioNode
+	/** Last node of the effect */
+	effectOutput: AudioNode
+}
+
+/**
+ * Built-in effect panning the stereo balance.
+ * Change it later through `pan` of the `StereoPannerNode` returned as the effect input.
+ * @param {number} [pan] - Balance from -1 (left) to 1 (right). Defaults to the center
+ * @returns {AudioEffectFactory} The effect factory, for `Player.addEffect`
+ */
+function createBalanceEffect(pan = 0): AudioEffectFactory {
+	return (context) => {
+		const panner = context.createStereoPanner()
+		panner.pan.value = Math.min(1, Math.max(-1, pan))
+		return panner
+	}
+}
+
+/**
+ * Built-in effect mixing all channels down to mono, played on both speakers.
+ * @returns {AudioEffectFactory} The effect factory, for `Player.addEffect`
+ */
+function createMonoDownmixEffect(): AudioEffectFactory {
+	return (context) => {
+		// A single explicit channel makes the node downmix its input, the next node upmixes it to both speakers
+		const downmix = context.createGain()
+		downmix.channelCount = 1
+		downmix.channelCountMode = 'explicit'
+		downmix.channelInterpretation = 'speakers'
+		return downmix
+	}
+}
+
+/**
+ * Ordered chain of audio effects between the tracks and the output.
+ * @class EffectsChain
+ */
+class EffectsChain {
+	/** Node the audio to process is connected to */
+	readonly input: GainNode
+	/** Node the processed audio comes out of */
+	readonly output: GainNode
+	/** The audio context of the effects */
+	private context: BaseAudioContext
+	/** The effects, in chain order */
+	private slots: EffectSlot[]
+
+	/**
+	 * Creates a new empty effects chain.
+	 * @param {BaseAudioContext} context - The audio context to create the effects in
+	 * @constructor
+	 */
+	constructor(context: BaseAudioContext) {
+		this.context = context
+		this.input = context.createGain()
+		this.output = context.createGain()
+		this.slots = []
+		this.relink()
+	}
+
+	/**
+	 * Adds an effect to the chain.
+	 * @param {AudioEffectNodes | AudioEffectFactory} effect - The nodes of the effect, or a factory creating them
+	 * @param {AddEffectOptions} [options] - Name, position and bypass state of the effect
+	 * @returns {string} The ID of the effect
+	 */
+	add = (effect: AudioEffectNodes | AudioEffectFactory, options: AddEffectOptions = {}): string => {
+		const nodes = typeof effect === 'function' ? effect(this.context) : effect
+		const effectInput = nodes instanceof AudioNode ? nodes : nodes.input
+		const effectOutput = nodes instanceof AudioNode ? nodes : nodes.output
+
+		const id = createId('effect')
+		const bypassed = options.bypassed ?? false
+		const slot: EffectSlot = {
+			id,
+			name: options.name ?? id,
+			bypassed,
+			input: this.context.createGain(),
+			output: this.context.createGain(),
+			wet: this.context.createGain(),
+			dry: this.context.createGain(),
+			effectInput,
+			effectOutput,
+		}
+		slot.wet.gain.value = bypassed ? 0 : 1
+		slot.dry.gain.value = bypassed ? 1 : 0
+		slot.input.connect(effectInput)
+		effectOutput.connect(slot.wet)
+		slot.wet.connect(slot.output)
+		slot.input.connect(slot.dry)
+		slot.dry.connect(slot.output)
+
+		const position = Math.min(this.slots.length, Math.max(0, options.position ?? this.slots.length))
+		this.slots.splice(position, 0, slot)
+		this.relink()
+		log.player(`Effect ${slot.name} added at position ${position}`)
+		return id
+	}
+
+	/**
+	 * Removes an effect from the chain.
+	 * @param {string} id - The ID of the effect
+	 * @returns {boolean} Success status - true if the effect was removed, false if there is no such effect
+	 */
+	remove = (id: string): boolean => {
+		const index = this.slots.findIndex((slot) => slot.id === id)
+		if (index === -1) {
+			log.player(`Unknown effect: ${id}`)
+			return false
+		}
+
+		const [slot] = this.slots.splice(index, 1)
+		this.relink()
+
+		// Release the effect, leaving the connections inside it alone
+		slot.input.disconnect()
+		slot.effectOutput.disconnect(slot.wet)
+		slot.wet.disconnect()
+		slot.dry.disconnect()
+		slot.output.disconnect()
+		log.player(`Effect ${slot.name} removed`)
+		return true
+	}
+
+	/**
+	 * Reorders the effects.
+	 * @param {string[]} ids - The IDs of all effects, in the new order
+	 * @returns {boolean} Success status - false if the IDs don't match the effects of the chain
+	 */
+	reorder = (ids: string[]): boolean => {
+		const slots = ids.map((id) => this.slots.find((slot) => slot.id === id))
+		if (ids.length !== this.slots.length || new Set(ids).size !== ids.length || slots.includes(undefined)) {
+			log.player('Invalid effect order:', ids)
+			return false
+		}
+
+		this.slots = slots as EffectSlot[]
+		this.relink()
+		return true
+	}
+
+	/**
+	 * Bypasses an effect or brings it back, fading between the processed and unprocessed signal.
+	 * @param {string} id - The ID of the effect
+	 * @param {boolean} bypassed - Whether to bypass the effect
+	 * @returns {boolean} Success status - true if the effect was found
+	 */
+	setBypassed = (id: string, bypassed: boolean): boolean => {
+		const slot = this.slots.find((slot) => slot.id === id)
+		if (!slot) {
+			log.player(`Unknown effect: ${id}`)
+			return false
+		}
+
+		slot.bypassed = bypassed
+		rampGain(this.context, slot.wet.gain, bypassed ? 0 : 1, BYPASS_RAMP_DURATION)
+		rampGain(this.context, slot.dry.gain, bypassed ? 1 : 0, BYPASS_RAMP_DURATION)
+		return true
+	}
+
+	/**
+	 * Gets the effects of the chain.
+	 * @returns {AudioEffectInfo[]} The effects, in chain order
+	 */
+	list = (): AudioEffectInfo[] => {
+		return this.slots.map((slot) => ({
+			id: slot.id,
+			name: slot.name,
+			bypassed: slot.bypassed,
+			input: slot.effectInput,
+			output: slot.effectOutput,
+		}))
+	}
+
+	/**
+	 * Connects the effects in chain order, between the input and the output.
+	 * @private
+	 */
+	private relink() {
+		this.input.disconnect()
+		for (const slot of this.slots) slot.output.disconnect()
+
+		let node: AudioNode = this.input
+		for (const slot of this.slots) {
+			node.connect(slot.input)
+			node = slot.output
+		}
+		node.connect(this.output)
+	}
+}
+
+export { EffectsChain, createBalanceEffect, createMonoDownmixEffect }
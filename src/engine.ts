@@ -0,0 +1,448 @@
+import log from './debug'
+import { parseGaplessInfo } from './gapless'
+
+/**
+ * The part of the `HTMLAudioElement` interface the player relies on.
+ * Implemented by `HTMLAudioElement` itself and by `BufferedAudio`.
+ */
+export interface PlayerAudio extends EventTarget {
+	/** The URL of the audio */
+	src: string
+	/** CORS setting of the request */
+	crossOrigin: string | null
+	/** Preload hint */
+	preload: '' | 'none' | 'metadata' | 'auto'
+	/** Current playback position in seconds */
+	currentTime: number
+	/** Duration in seconds, NaN while unknown */
+	readonly duration: number
+	/** Whether the playback is paused */
+	readonly paused: boolean
+	/** Volume, from 0 to 1 */
+	volume: number
+	/** Playback speed, 1 being the normal speed */
+	playbackRate: number
+	/** The last loading error, with a `MediaError` code */
+	readonly error: { readonly code: number; readonly message: string } | null
+	/** Loaded parts of the audio */
+	readonly buffered: TimeRanges
+	/** Playback speed restored when a new source is loaded */
+	defaultPlaybackRate: number
+	/** Whether the pitch is kept when the playback speed changes */
+	preservesPitch: boolean
+	/** Starts or resumes playback */
+	play(): Promise<void>
+	/** Pauses playback */
+	pause(): void
+	/** Starts loading the audio */
+	load(): void
+}
+
+/** Tolerance when comparing the decoded duration with the duration announced by the encoder, in seconds */
+const PADDING_TOLERANCE = 0.05
+
+/**
+ * Audio track fully decoded into an `AudioBuffer` and played with `AudioBufferSourceNode`s.
+ * Behaves like an `HTMLAudioElement` for the player, and can additionally be scheduled to start
+ * at an exact time of the `AudioContext` timeline, which makes sample-accurate gapless transitions possible.
+ * Encoder padding (LAME tag, iTunSMPB) is trimmed from both ends.
+ * Changing the playback speed also changes the pitch, `preservesPitch` is not supported.
+ * A section of the track can be looped seamlessly with `setLoopRange`.
+ * @class BufferedAudio
+ */
+export class BufferedAudio extends EventTarget implements PlayerAudio {
+	/** The URL of the audio */
+	src: string
+	/** CORS setting of the request */
+	crossOrigin: string | null
+	/** Preload hint, the whole track is always loaded */
+	preload: '' | 'none' | 'metadata' | 'auto'
+	/** Playback speed restored when a new source is loaded, kept for compatibility */
+	defaultPlaybackRate: number
+	/** Not supported, the pitch always follows the playback speed */
+	preservesPitch: boolean
+	/** The last loading error, with a `MediaError` code */
+	error: { code: number; message: string } | null
+	/** Output node, carrying the volume */
+	readonly output: GainNode
+	/** The audio context the track plays in */
+	private context: AudioContext
+	/** Decoded audio */
+	private buffer: AudioBuffer | null
+	/** Pending fetch and decode */
+	private loading: Promise<AudioBuffer> | null
+	/** Resolves once the audio has a source, for audios created while their source is resolved */
+	private sourceKnown: Promise<void>
+	/** Resolves `sourceKnown` */
+	private markSourceKnown: () => void
+	/** Offset of the actual audio inside the buffer, skipping the encoder delay */
+	private startPadding: number
+	/** Duration of the actual audio, without encoder delay and padding */
+	private trimmedDuration: number
+	/** The source node currently playing or scheduled */
+	private source: AudioBufferSourceNode | null
+	/** Context time at which the current source starts (or started) playing */
+	private startedAt: number
+	/** Track position at which the current source starts playing */
+	private startOffset: number
+	/** Track position while paused */
+	private pausedAt: number
+	/** Playback speed */
+	private rate: number
+	/** Section looped while playing, in track time */
+	private loopRange: { start: number; end: number } | null
+	/** Position at which playback ends before the end of the track, in track time */
+	private endPosition: number | null
+	/** Timer dispatching `timeupdate` events */
+	private timeupdateTimer: number | null
+
+	/**
+	 * Creates a new buffered audio track. Loading starts with `load` or `play`.
+	 * Without a source, loading waits for `load` to be called once `src` is set.
+	 * @param {AudioContext} context - The audio context to play in
+	 * @param {string} src - The URL of the audio
+	 * @constructor
+	 */
+	constructor(context: AudioContext, src: string) {
+		super()
+		this.src = src
+		this.crossOrigin = null
+		this.preload = 'auto'
+		this.defaultPlaybackRate = 1
+		this.preservesPitch = false
+		this.error = null
+		this.context = context
+		this.output = context.createGain()
+		this.buffer = null
+		this.loading = null
+		this.markSourceKnown = () => {}
+		this.sourceKnown = src
+			? Promise.resolve()
+			: new Promise((resolve) => {
+					this.markSourceKnown = resolve
+				})
+		this.startPadding = 0
+		this.trimmedDuration = Number.NaN
+		this.source = null
+		this.startedAt = 0
+		this.startOffset = 0
+		this.pausedAt = 0
+		this.rate = 1
+		this.loopRange = null
+		this.endPosition = null
+		this.timeupdateTimer = null
+	}
+
+	/** Duration in seconds, NaN until decoded */
+	get duration(): number {
+		return this.trimmedDuration
+	}
+
+	/** Whether the playback is paused. A track scheduled to start later counts as playing */
+	get paused(): boolean {
+		return this.source === null
+	}
+
+	/** Loaded parts of the audio, the whole track once decoded */
+	get buffered(): TimeRanges {
+		const ranges = this.buffer ? [{ start: 0, end: this.trimmedDuration }] : []
+		const getRange = (index: number) => {
+			const range = ranges[index]
+			if (!range) throw new DOMException(`Index ${index} out of range`, 'IndexSizeError')
+			return range
+		}
+		return { length: ranges.length, start: (index) => getRange(index).start, end: (index) => getRange(index).end }
+	}
+
+	/** Whether the track is decoded and can start without delay */
+	get ready(): boolean {
+		return this.buffer !== null
+	}
+
+	/** Current playback position in seconds */
+	get currentTime(): number {
+		if (!this.source) return this.pausedAt
+		const elapsed = Math.max(0, this.context.currentTime - this.startedAt) * this.rate
+		const position = this.startOffset + elapsed
+
+		// Wrap around the looped section once its end was reached
+		const loop = this.loopRange
+		if (loop && this.startOffset < loop.end && position >= loop.end) {
+			return loop.start + ((position - loop.start) % (loop.end - loop.start))
+		}
+		return Math.min(position, this.stopPosition || 0)
+	}
+
+	set currentTime(time: number) {
+		const position = Math.max(0, Number.isNaN(this.trimmedDuration) ? time : Math.min(time, this.trimmedDuration))
+		if (this.source) {
+			// Restart the source at the new position
+			this.startSource(this.context.currentTime, position)
+		} else {
+			this.pausedAt = position
+		}
+		this.dispatchEvent(new Event('seeked'))
+		this.dispatchEvent(new Event('timeupdate'))
+	}
+
+	/** Volume, from 0 to 1 */
+	get volume(): number {
+		return this.output.gain.value
+	}
+
+	set volume(volume: number) {
+		this.output.gain.value = volume
+	}
+
+	/** Playback speed, 1 being the normal speed */
+	get playbackRate(): number {
+		return this.rate
+	}
+
+	set playbackRate(rate: number) {
+		if (rate === this.rate) return
+		if (this.source && this.context.currentTime >= this.startedAt) {
+			// Continue from the current position at the new speed
+			this.startOffset = this.currentTime
+			this.startedAt = this.context.currentTime
+		}
+		this.rate = rate
+		this.source?.playbackRate.setValueAtTime(rate, this.context.currentTime)
+		this.dispatchEvent(new Event('ratechange'))
+	}
+
+	/** Context time at which the track ends if it keeps playing, or null while paused or looping */
+	get endTime(): number | null {
+		if (!this.source) return null
+		if (this.loopRange && this.startOffset < this.loopRange.end) return null
+		return this.startedAt + Math.max(0, this.stopPosition - this.startOffset) / this.rate
+	}
+
+	/** Position at which playback ends, the end position or the end of the track */
+	private get stopPosition(): number {
+		return this.endPosition !== null ? Math.min(this.endPosition, this.trimmedDuration) : this.trimmedDuration
+	}
+
+	/**
+	 * Starts fetching and decoding the audio, once it has a source.
+	 */
+	load() {
+		if (!this.src) return
+		this.markSourceKnown()
+		this.decode().catch(() => {})
+	}
+
+	/**
+	 * Starts or resumes playback right away, once the audio is decoded.
+	 * @returns {Promise<void>}
+	 */
+	async play(): Promise<void> {
+		await this.playAt(this.context.currentTime)
+	}
+
+	/**
+	 * Schedules playback to start at a specific time of the audio context timeline.
+	 * Replaces any earlier schedule.
+	 * @param {number} when - Context time to start at, in seconds
+	 * @returns {Promise<void>}
+	 */
+	async playAt(when: number): Promise<void> {
+		if (!this.buffer) this.dispatchEvent(new Event('waiting'))
+		await this.decode()
+		if (this.pausedAt >= this.trimmedDuration) this.pausedAt = 0
+
+		const wasPaused = this.paused
+		this.startSource(Math.max(when, this.context.currentTime), this.currentTime)
+		if (wasPaused) {
+			this.dispatchEvent(new Event('play'))
+			this.dispatchEvent(new Event('playing'))
+		}
+	}
+
+	/**
+	 * Loops a section of the track seamlessly, or stops looping.
+	 * Playback reaching the end of the section jumps back to its start at the exact sample.
+	 * @param {{start: number, end: number} | null} range - The section to loop in seconds, null to stop looping
+	 */
+	setLoopRange(range: { start: number; end: number } | null) {
+		this.loopRange = range
+
+		// Looping is a property of the source, restart it from the same position
+		if (!this.source) return
+		if (this.context.currentTime < this.startedAt) {
+			this.startSource(this.startedAt, this.startOffset)
+		} else {
+			this.startSource(this.context.currentTime, this.currentTime)
+		}
+	}
+
+	/**
+	 * Ends playback at a position before the end of the track, or at the end of the track again.
+	 * Playback reaching the position ends like at the end of the track, at the exact sample.
+	 * @param {number | null} position - The position to end at in seconds, null for the end of the track
+	 */
+	setEndPosition(position: number | null) {
+		if (position === this.endPosition) return
+		this.endPosition = position
+
+		// The end is a property of the source, restart it from the same position
+		if (!this.source) return
+		if (this.context.currentTime < this.startedAt) {
+			this.startSource(this.startedAt, this.startOffset)
+		} else {
+			this.startSource(this.context.currentTime, this.currentTime)
+		}
+	}
+
+	/**
+	 * Pauses playback, or cancels a scheduled start.
+	 */
+	pause() {
+		if (!this.source) return
+		this.pausedAt = this.currentTime
+		this.stopSource()
+		this.dispatchEvent(new Event('pause'))
+	}
+
+	/**
+	 * Gets the decoded audio, fetching and decoding it if needed, once the audio has a source.
+	 * The encoder padding isn't trimmed.
+	 * @returns {Promise<AudioBuffer>} The decoded audio
+	 */
+	getBuffer(): Promise<AudioBuffer> {
+		return this.decode()
+	}
+
+	/**
+	 * Fetches and decodes the audio, once. Waits for the source when it isn't known yet.
+	 * @private
+	 * @returns {Promise<AudioBuffer>} The decoded audio
+	 */
+	private decode(): Promise<AudioBuffer> {
+		if (this.loading) return this.loading
+
+		this.loading = (async () => {
+			await this.sourceKnown
+			let decoding = false
+			try {
+				const response = await fetch(this.src, {
+					credentials: this.crossOrigin === 'use-credentials' ? 'include' : 'same-origin',
+				})
+				if (!response.ok) throw new DOMException(`HTTP ${response.status}`, 'NetworkError')
+				const data = await response.arrayBuffer()
+				this.dispatchEvent(new Event('progress'))
+
+				// Read the padding information before decoding, decodeAudioData detaches the data
+				const gapless = parseGaplessInfo(data)
+				decoding = true
+				const buffer = await this.context.decodeAudioData(data)
+
+				this.buffer = buffer
+				this.error = null
+				this.trimmedDuration = buffer.duration
+				if (gapless) {
+					// Only trim when the decoder kept the padding
+					const paddedDuration = gapless.totalSamples / gapless.sampleRate
+					if (Math.abs(buffer.duration - paddedDuration) < PADDING_TOLERANCE) {
+						this.startPadding = gapless.startSamples / gapless.sampleRate
+						this.trimmedDuration = gapless.validSamples / gapless.sampleRate
+						log.player(`Trimmed encoder padding: ${this.startPadding}s at start of ${this.src}`)
+					}
+				}
+
+				this.dispatchEvent(new Event('loadedmetadata'))
+				this.dispatchEvent(new Event('durationchange'))
+				this.dispatchEvent(new Event('canplay'))
+				this.dispatchEvent(new Event('canplaythrough'))
+				return buffer
+			} catch (error) {
+				// Allow retrying on the next call
+				this.loading = null
+				this.error = {
+					code: decoding ? MediaError.MEDIA_ERR_DECODE : MediaError.MEDIA_ERR_NETWORK,
+					message: error instanceof Error ? error.message : String(error),
+				}
+				this.dispatchEvent(new Event('error'))
+				throw error
+			}
+		})()
+		return this.loading
+	}
+
+	/**
+	 * Creates a new source node playing from a track position, replacing the current one.
+	 * @private
+	 * @param {number} when - Context time to start at
+	 * @param {number} position - Track position to start from
+	 */
+	private startSource(when: number, position: number) {
+		if (!this.buffer) return
+		this.stopSource()
+
+		const source = this.context.createBufferSource()
+		source.buffer = this.buffer
+		source.playbackRate.value = this.rate
+		source.connect(this.output)
+		source.onended = () => {
+			// Ignore sources stopped or replaced on purpose
+			if (source !== this.source) return
+			this.source = null
+			this.pausedAt = this.stopPosition
+			this.stopTimeupdate()
+			this.dispatchEvent(new Event('timeupdate'))
+			this.dispatchEvent(new Event('ended'))
+		}
+		if (this.loopRange) {
+			source.loop = true
+			source.loopStart = this.startPadding + this.loopRange.start
+			source.loopEnd = this.startPadding + this.loopRange.end
+			source.start(when, this.startPadding + position)
+		} else {
+			source.start(when, this.startPadding + position, Math.max(0, this.stopPosition - position))
+		}
+
+		this.source = source
+		this.startedAt = when
+		this.startOffset = position
+		this.startTimeupdate()
+	}
+
+	/**
+	 * Stops and releases the current source node.
+	 * @private
+	 */
+	private stopSource() {
+		const source = this.source
+		if (!source) return
+		this.source = null
+		source.onended = null
+		source.stop()
+		source.disconnect()
+		this.stopTimeupdate()
+	}
+
+	/**
+	 * Starts dispatching `timeupdate` events, like a media element does while playing.
+	 * @private
+	 */
+	private startTimeupdate() {
+		this.stopTimeupdate()
+		this.timeupdateTimer = window.setInterval(() => {
+			// Skip while the start is still scheduled in the future
+			if (this.context.currentTime >= this.startedAt) {
+				this.dispatchEvent(new Event('timeupdate'))
+			}
+		}, 250)
+	}
+
+	/**
+	 * Stops dispatching `timeupdate` events.
+	 * @private
+	 */
+	private stopTimeupdate() {
+		if (this.timeupdateTimer !== null) {
+			window.clearInterval(this.timeupdateTimer)
+			this.timeupdateTimer = null
+		}
+	}
+}
@@ -0,0 +1,342 @@
+import { rampGain } from './crossfade'
+import log from './debug'
+
+/** Duration of the ramps applying equalizer changes, in seconds */
+const RAMP_DURATION = 0.05
+
+/** Duration of the crossfade from a chain of filters to a new one, in seconds */
+const CHAIN_CROSSFADE_DURATION = 0.1
+
+/** Center frequencies of the default bands, in Hz */
+const DEFAULT_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000]
+
+/** Quality factor of the default bands, one octave wide */
+const DEFAULT_Q = 1.41
+
+/** Largest boost or cut of a band, in dB */
+const MAX_GAIN = 24
+
+/** Filter types a band can have */
+const FILTER_TYPES: BiquadFilterType[] = [
+	'lowpass',
+	'highpass',
+	'bandpass',
+	'lowshelf',
+	'highshelf',
+	'peaking',
+	'notch',
+	'allpass',
+]
+
+/**
+ * Creates the default bands with the given gains: a low shelf, peaking bands and a high shelf.
+ * @param {number[]} gains - Gain of each default band in dB
+ * @returns {EqualizerBand[]} The bands
+ */
+function createDefaultBands(gains: number[]): EqualizerBand[] {
+	return DEFAULT_FREQUENCIES.map((frequency, index) => ({
+		type: index === 0 ? 'lowshelf' : index === DEFAULT_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking',
+		frequency,
+		gain: gains[index] ?? 0,
+		q: DEFAULT_Q,
+	}))
+}
+
+/** Presets built into the equalizer */
+const BUILT_IN_PRESETS: Record<BuiltInEqualizerPreset, EqualizerBand[]> = {
+	flat: createDefaultBands([0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+	bass_boost: createDefaultBands([6, 5, 4, 2, 0, 0, 0, 0, 0, 0]),
+	vocal: createDefaultBands([-2, -2, -1, 0, 2, 4, 4, 3, 1, 0]),
+	loudness: createDefaultBands([5, 4, 2, 0, -1, 0, 0, 1, 3, 4]),
+}
+
+/**
+ * Checks whether a name is the name of a built-in preset.
+ * @param {string} name - The name to check
+ * @returns {boolean} True if the name is a built-in preset
+ */
+function isBuiltInPreset(name: string): name is BuiltInEqualizerPreset {
+	return Object.hasOwn(BUILT_IN_PRESETS, name)
+}
+
+/**
+ * Checks whether a value is a valid equalizer band.
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is a valid band
+ */
+function isEqualizerBand(value: unknown): value is EqualizerBand {
+	if (typeof value !== 'object' || value === null) return false
+	const band = value as Record<string, unknown>
+	return (
+		FILTER_TYPES.includes(band.type as BiquadFilterType) &&
+		Number.isFinite(band.frequency) &&
+		Number.isFinite(band.gain) &&
+		Number.isFinite(band.q)
+	)
+}
+
+/**
+ * Checks whether a value is a valid equalizer preset.
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if the value is a valid preset
+ */
+function isEqualizerPreset(value: unknown): value is EqualizerPreset {
+	if (typeof value !== 'object' || value === null) return false
+	const preset = value as Record<string, unknown>
+	return (
+		typeof preset.name === 'string' &&
+		Array.isArray(preset.bands) &&
+		preset.bands.length > 0 &&
+		preset.bands.every(isEqualizerBand)
+	)
+}
+
+/**
+ * Parametric equalizer made of a chain of `BiquadFilterNode` bands.
+ * Sits between the tracks and the output, so it is shared by all tracks and applies across transitions.
+ * @class Equalizer
+ */
+class Equalizer {
+	/** Node the audio to equalize is connected to */
+	readonly input: GainNode
+	/** Node the equalized audio comes out of */
+	readonly output: GainNode
+	/** The audio context of the filters */
+	private context: BaseAudioContext
+	/** Filters of the bands, in chain order */
+	private filters: BiquadFilterNode[]
+	/** Gain after the last filter, fading the chain in and out when it is replaced */
+	private chainGain: GainNode | null
+	/** Target values of the bands, the filters may still be ramping to them */
+	private bands: EqualizerBand[]
+	/** Custom presets, by name */
+	private customPresets: Map<string, EqualizerBand[]>
+
+	/**
+	 * Creates a new equalizer with the flat preset.
+	 * @param {BaseAudioContext} context - The audio context to create the filters in
+	 * @constructor
+	 */
+	constructor(context: BaseAudioContext) {
+		this.context = context
+		this.input = context.createGain()
+		this.output = context.createGain()
+		this.filters = []
+		this.chainGain = null
+		this.bands = []
+		this.customPresets = new Map()
+		this.rebuild(BUILT_IN_PRESETS.flat)
+	}
+
+	/**
+	 * Gets the current bands.
+	 * @returns {EqualizerBand[]} A copy of the bands, from low to high frequencies
+	 */
+	getBands = (): EqualizerBand[] => {
+		return this.bands.map((band) => ({ ...band }))
+	}
+
+	/**
+	 * Changes the gain, frequency or Q of a band, ramping smoothly to the new values.
+	 * @param {number} index - The index of the band
+	 * @param {Partial<EqualizerBand>} band - The values to change
+	 * @returns {boolean} Success status - true if the band was changed, false if the index is out of range
+	 */
+	setBand = (index: number, band: Partial<EqualizerBand>): boolean => {
+		const filter = this.filters[index]
+		const target = this.bands[index]
+		if (!filter || !target) {
+			log.player(`Invalid equalizer band: ${index}`)
+			return false
+		}
+
+		if (band.type !== undefined && FILTER_TYPES.includes(band.type)) {
+			target.type = band.type
+			filter.type = band.type
+		}
+		if (band.gain !== undefined && Number.isFinite(band.gain)) {
+			target.gain = this.clampGain(band.gain)
+			rampGain(this.context, filter.gain, target.gain, RAMP_DURATION)
+		}
+		if (band.frequency !== undefined && Number.isFinite(band.frequency)) {
+			target.frequency = this.clampFrequency(band.frequency)
+			rampGain(this.context, filter.frequency, target.frequency, RAMP_DURATION)
+		}
+		if (band.q !== undefined && Number.isFinite(band.q)) {
+			target.q = this.clampQ(band.q)
+			rampGain(this.context, filter.Q, target.q, RAMP_DURATION)
+		}
+		return true
+	}
+
+	/**
+	 * Applies a built-in or custom preset.
+	 * Presets with the same number of bands ramp smoothly, others crossfade to a new chain of filters.
+	 * @param {string} name - The name of the preset
+	 * @returns {boolean} Success status - true if the preset was applied, false if there is no such preset
+	 */
+	applyPreset = (name: BuiltInEqualizerPreset | string): boolean => {
+		const bands = isBuiltInPreset(name) ? BUILT_IN_PRESETS[name] : this.customPresets.get(name)
+		if (!bands) {
+			log.player(`Unknown equalizer preset: ${name}`)
+			return false
+		}
+
+		log.player(`Applying equalizer preset: ${name}`)
+		if (bands.length !== this.filters.length) {
+			this.rebuild(bands)
+			return true
+		}
+		bands.forEach((band, index) => {
+			this.setBand(index, band)
+		})
+		return true
+	}
+
+	/**
+	 * Gets the names of all presets.
+	 * @returns {string[]} The built-in presets followed by the custom ones
+	 */
+	getPresets = (): string[] => {
+		return [...Object.keys(BUILT_IN_PRESETS), ...this.customPresets.keys()]
+	}
+
+	/**
+	 * Saves the current bands as a custom preset, replacing any custom preset with the same name.
+	 * @param {string} name - The name of the preset, which can't be the name of a built-in preset
+	 * @returns {boolean} Success status - true if the preset was saved
+	 */
+	savePreset = (name: string): boolean => {
+		if (isBuiltInPreset(name)) {
+			log.player(`Can't replace built-in equalizer preset: ${name}`)
+			return false
+		}
+		this.customPresets.set(name, this.getBands())
+		return true
+	}
+
+	/**
+	 * Deletes a custom preset.
+	 * @param {string} name - The name of the preset
+	 * @returns {boolean} True if the preset existed
+	 */
+	deletePreset = (name: string): boolean => {
+		return this.customPresets.delete(name)
+	}
+
+	/**
+	 * Exports the custom presets as JSON, to be stored by the application.
+	 * @returns {string} JSON array of `EqualizerPreset`
+	 */
+	exportPresets = (): string => {
+		const presets: EqualizerPreset[] = [...this.customPresets].map(([name, bands]) => ({ name, bands }))
+		return JSON.stringify(presets)
+	}
+
+	/**
+	 * Imports custom presets exported with `exportPresets`, replacing custom presets with the same names.
+	 * Invalid presets are skipped.
+	 * @param {string} json - JSON array of `EqualizerPreset`
+	 * @returns {boolean} Success status - false if the JSON can't be parsed
+	 */
+	importPresets = (json: string): boolean => {
+		let presets: unknown
+		try {
+			presets = JSON.parse(json)
+		} catch (error) {
+			log.player('Failed to parse equalizer presets:', error)
+			return false
+		}
+		if (!Array.isArray(presets)) return false
+
+		for (const preset of presets) {
+			if (!isEqualizerPreset(preset) || isBuiltInPreset(preset.name)) {
+				log.player('Skipping invalid equalizer preset:', preset)
+				continue
+			}
+			this.customPresets.set(
+				preset.name,
+				preset.bands.map(({ type, frequency, gain, q }) => ({ type, frequency, gain, q })),
+			)
+		}
+		return true
+	}
+
+	/**
+	 * Replaces the chain of filters with new bands, crossfading from the previous chain
+	 * so the change doesn't click while audio plays.
+	 * @private
+	 * @param {EqualizerBand[]} bands - The bands of the new chain
+	 */
+	private rebuild(bands: EqualizerBand[]) {
+		const previousFilters = this.filters
+		const previousGain = this.chainGain
+
+		this.bands = bands.map((band) => ({
+			type: band.type,
+			frequency: this.clampFrequency(band.frequency),
+			gain: this.clampGain(band.gain),
+			q: this.clampQ(band.q),
+		}))
+		this.filters = this.bands.map((band) => {
+			const filter = this.context.createBiquadFilter()
+			filter.type = band.type
+			filter.frequency.value = band.frequency
+			filter.gain.value = band.gain
+			filter.Q.value = band.q
+			return filter
+		})
+
+		const chainGain = this.context.createGain()
+		this.chainGain = chainGain
+		let node: AudioNode = this.input
+		for (const filter of this.filters) {
+			node.connect(filter)
+			node = filter
+		}
+		node.connect(chainGain)
+		chainGain.connect(this.output)
+
+		if (!previousGain) return
+		chainGain.gain.value = 0
+		rampGain(this.context, chainGain.gain, 1, CHAIN_CROSSFADE_DURATION)
+		rampGain(this.context, previousGain.gain, 0, CHAIN_CROSSFADE_DURATION)
+		window.setTimeout(() => {
+			this.input.disconnect(previousFilters[0] ?? previousGain)
+			for (const filter of previousFilters) filter.disconnect()
+			previousGain.disconnect()
+		}, CHAIN_CROSSFADE_DURATION * 1000)
+	}
+
+	/**
+	 * Clamps a gain to the supported range.
+	 * @private
+	 * @param {number} gain - The gain in dB
+	 * @returns {number} The clamped gain
+	 */
+	private clampGain(gain: number): number {
+		return Math.min(MAX_GAIN, Math.max(-MAX_GAIN, gain))
+	}
+
+	/**
+	 * Clamps a quality factor to a positive value.
+	 * @private
+	 * @param {number} q - The quality factor
+	 * @returns {number} The clamped quality factor
+	 */
+	private clampQ(q: number): number {
+		return Math.max(0.0001, q)
+	}
+
+	/**
+	 * Clamps a frequency between 10 Hz and the Nyquist frequency.
+	 * @private
+	 * @param {number} frequency - The frequency in Hz
+	 * @returns {number} The clamped frequency
+	 */
+	private clampFrequency(frequency: number): number {
+		return Math.min(this.context.sampleRate / 2, Math.max(10, frequency))
+	}
+}
+
+export { Equalizer }
@@ -0,0 +1,294 @@
+/**
+ * Encoder padding information of a compressed track, in samples at the track's own sample rate.
+ */
+export interface GaplessInfo {
+	/** Sample rate of the encoded track */
+	sampleRate: number
+	/** Samples to skip at the start (encoder delay, plus decoder delay for MP3) */
+	startSamples: number
+	/** Samples of actual audio */
+	validSamples: number
+	/** Samples a decoder outputs when it does not trim anything */
+	totalSamples: number
+}
+
+/** Sample rates of MPEG audio, indexed by version then by the header's sample rate index */
+const MPEG_SAMPLE_RATES: Record<number, number[]> = {
+	3: [44100, 48000, 32000], // MPEG 1
+	2: [22050, 24000, 16000], // MPEG 2
+	0: [11025, 12000, 8000], // MPEG 2.5
+}
+
+/** Decoder delay of MP3 decoders, which the LAME tag doesn't include */
+const MP3_DECODER_DELAY = 529
+
+/**
+ * Reads the encoder padding information of a track, from a LAME tag (MP3) or an iTunSMPB tag (AAC, MP3 from iTunes).
+ * MP4 files are read through their atoms and MP3 files through their ID3 frames, so the audio data is never searched.
+ * @param {ArrayBuffer} data - The encoded track
+ * @returns {GaplessInfo | null} The padding information, or null if the track has none
+ */
+export function parseGaplessInfo(data: ArrayBuffer): GaplessInfo | null {
+	const bytes = new Uint8Array(data)
+	if (matchesAscii(bytes, 4, 'ftyp')) return parseMp4(bytes)
+
+	const smpb = readId3ITunSMPB(bytes)
+	const sampleRate = mpegSampleRate(bytes, id3v2Size(bytes))
+	return (smpb !== null && sampleRate !== null ? parseITunSMPB(smpb, sampleRate) : null) ?? parseLameTag(bytes)
+}
+
+/**
+ * Gets the size of the ID3v2 tag at the start of the data, if any.
+ * @param {Uint8Array} bytes - The encoded track
+ * @returns {number} The size of the tag including its header, 0 if there is none
+ */
+function id3v2Size(bytes: Uint8Array): number {
+	if (bytes.length < 10 || bytes[0] !== 0x49 || bytes[1] !== 0x44 || bytes[2] !== 0x33) return 0
+	// Synchsafe integer, 7 bits per byte
+	const size = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f)
+	const hasFooter = (bytes[5] & 0x10) !== 0
+	return 10 + size + (hasFooter ? 10 : 0)
+}
+
+/**
+ * Checks whether an ASCII string is at a specific offset of the data.
+ * @param {Uint8Array} bytes - The data to check
+ * @param {number} offset - The offset of the string
+ * @param {string} text - The ASCII string
+ * @returns {boolean} True if the string is at the offset
+ */
+function matchesAscii(bytes: Uint8Array, offset: number, text: string): boolean {
+	if (offset < 0 || offset + text.length > bytes.length) return false
+	for (let i = 0; i < text.length; i++) {
+		if (bytes[offset + i] !== text.charCodeAt(i)) return false
+	}
+	return true
+}
+
+/**
+ * Decodes ASCII or ISO-8859-1 text.
+ * @param {Uint8Array} bytes - The encoded text
+ * @returns {string} The text
+ */
+function decodeLatin1(bytes: Uint8Array): string {
+	return new TextDecoder('latin1').decode(bytes)
+}
+
+/**
+ * Calls a function for each atom inside an MP4 atom, or at the top level of the file.
+ * @param {Uint8Array} bytes - The content of the parent atom
+ * @param {(type: string, content: Uint8Array) => void} callback - Called with the type and the content of each atom
+ */
+function forEachAtom(bytes: Uint8Array, callback: (type: string, content: Uint8Array) => void) {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	let position = 0
+	while (position + 8 <= bytes.length) {
+		let size = view.getUint32(position)
+		let headerLength = 8
+		if (size === 1 && position + 16 <= bytes.length) {
+			// 64 bit size
+			size = view.getUint32(position + 8) * 2 ** 32 + view.getUint32(position + 12)
+			headerLength = 16
+		}
+		const end = size === 0 ? bytes.length : Math.min(bytes.length, position + size)
+		if (end < position + headerLength) return
+		callback(decodeLatin1(bytes.subarray(position + 4, position + 8)), bytes.subarray(position + headerLength, end))
+		position = end
+	}
+}
+
+/**
+ * Finds a nested MP4 atom by its path, taking the first atom of each type.
+ * @param {Uint8Array} bytes - The content of the atom to search in
+ * @param {string[]} path - The types of the nested atoms
+ * @returns {Uint8Array | null} The content of the atom, or null if not found
+ */
+function findAtom(bytes: Uint8Array, path: string[]): Uint8Array | null {
+	const found: Uint8Array[] = []
+	forEachAtom(bytes, (type, content) => {
+		if (found.length === 0 && type === path[0]) found.push(content)
+	})
+	if (found.length === 0) return null
+	return path.length === 1 ? found[0] : findAtom(found[0], path.slice(1))
+}
+
+/**
+ * Reads the sample rate of an MP3 frame header.
+ * @param {Uint8Array} bytes - The encoded track
+ * @param {number} frame - Offset of the frame
+ * @returns {number | null} The sample rate, or null if there is no MPEG Layer III frame at the offset
+ */
+function mpegSampleRate(bytes: Uint8Array, frame: number): number | null {
+	if (frame + 4 > bytes.length || bytes[frame] !== 0xff || (bytes[frame + 1] & 0xe0) !== 0xe0) return null
+
+	const version = (bytes[frame + 1] >> 3) & 0x03
+	const layer = (bytes[frame + 1] >> 1) & 0x03
+	const sampleRate = MPEG_SAMPLE_RATES[version]?.[(bytes[frame + 2] >> 2) & 0x03]
+	if (layer !== 1 || !sampleRate) return null // Layer III only
+	return sampleRate
+}
+
+/**
+ * Reads the LAME tag of the first MP3 frame (Xing/Info header).
+ * @param {Uint8Array} bytes - The encoded track
+ * @returns {GaplessInfo | null} The padding information, or null if there is no LAME tag
+ */
+function parseLameTag(bytes: Uint8Array): GaplessInfo | null {
+	const frame = id3v2Size(bytes)
+	const sampleRate = mpegSampleRate(bytes, frame)
+	if (sampleRate === null) return null
+
+	const version = (bytes[frame + 1] >> 3) & 0x03
+
+	const mono = bytes[frame + 3] >> 6 === 3
+	const sideInfo = version === 3 ? (mono ? 17 : 32) : mono ? 9 : 17
+	const samplesPerFrame = version === 3 ? 1152 : 576
+
+	let offset = frame + 4 + sideInfo
+	if (!matchesAscii(bytes, offset, 'Xing') && !matchesAscii(bytes, offset, 'Info')) return null
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	const flags = view.getUint32(offset + 4)
+	offset += 8
+	if (!(flags & 0x01)) return null // The frame count is needed
+	const frames = view.getUint32(offset)
+	offset += 4
+	if (flags & 0x02) offset += 4 // Byte count
+	if (flags & 0x04) offset += 100 // Seek table
+	if (flags & 0x08) offset += 4 // Quality
+
+	// The encoder delay and padding are 12 bits each, 21 bytes into the LAME tag
+	if (!matchesAscii(bytes, offset, 'LAME') || offset + 24 > bytes.length) return null
+	const delay = (bytes[offset + 21] << 4) | (bytes[offset + 22] >> 4)
+	const padding = ((bytes[offset + 22] & 0x0f) << 8) | bytes[offset + 23]
+
+	const totalSamples = frames * samplesPerFrame
+	const validSamples = totalSamples - delay - padding
+	if (validSamples <= 0) return null
+
+	return { sampleRate, startSamples: delay + MP3_DECODER_DELAY, validSamples, totalSamples }
+}
+
+/**
+ * Reads the value of an iTunSMPB tag.
+ * @param {string} value - The tag value, a list of hex numbers
+ * @param {number} sampleRate - The sample rate of the track
+ * @returns {GaplessInfo | null} The padding information, or null if the value is invalid
+ */
+function parseITunSMPB(value: string, sampleRate: number): GaplessInfo | null {
+	// The value is a list of hex numbers: reserved, delay, padding, sample count
+	const match = value.match(/([0-9a-f]{8}) ([0-9a-f]{8}) ([0-9a-f]{8}) ([0-9a-f]{16})/i)
+	if (!match) return null
+
+	const delay = parseInt(match[2], 16)
+	const padding = parseInt(match[3], 16)
+	const validSamples = parseInt(match[4], 16)
+	if (validSamples <= 0) return null
+
+	return { sampleRate, startSamples: delay, validSamples, totalSamples: delay + validSamples + padding }
+}
+
+/**
+ * Reads the iTunSMPB tag of an MP4 file, in its `moov/udta/meta/ilst` freeform items,
+ * with the sample rate of its first AAC sample entry.
+ * @param {Uint8Array} bytes - The encoded track
+ * @returns {GaplessInfo | null} The padding information, or null if there is no iTunSMPB tag
+ */
+function parseMp4(bytes: Uint8Array): GaplessInfo | null {
+	const moov = findAtom(bytes, ['moov'])
+	if (!moov) return null
+
+	// The meta atom is a full box, with 4 bytes of version and flags before its children
+	const meta = findAtom(moov, ['udta', 'meta'])
+	const ilst = meta ? findAtom(meta.subarray(4), ['ilst']) : null
+	const values: string[] = []
+	if (ilst) {
+		forEachAtom(ilst, (type, item) => {
+			if (type !== '----') return
+			// Freeform item, the name and the data have 4 and 8 bytes of headers
+			const name = findAtom(item, ['name'])
+			const data = findAtom(item, ['data'])
+			if (name && data && decodeLatin1(name.subarray(4)) === 'iTunSMPB') values.push(decodeLatin1(data.subarray(8)))
+		})
+	}
+	if (values.length === 0) return null
+
+	const sampleRates: number[] = []
+	forEachAtom(moov, (type, trak) => {
+		if (type !== 'trak') return
+		// The sample description is a full box with an entry count, followed by the entries
+		const stsd = findAtom(trak, ['mdia', 'minf', 'stbl', 'stsd'])
+		if (!stsd || !matchesAscii(stsd, 12, 'mp4a') || stsd.length < 42) return
+		// Sample rate is a 16.16 fixed point number, 24 bytes into the audio sample entry
+		sampleRates.push((stsd[40] << 8) | stsd[41])
+	})
+	const sampleRate = sampleRates.find((rate) => rate > 0)
+	return sampleRate ? parseITunSMPB(values[0], sampleRate) : null
+}
+
+/**
+ * Reads the iTunSMPB comment of the ID3v2 tag at the start of an MP3 file.
+ * Unsynchronized tags are not read.
+ * @param {Uint8Array} bytes - The encoded track
+ * @returns {string | null} The value of the comment, or null if there is none
+ */
+function readId3ITunSMPB(bytes: Uint8Array): string | null {
+	const end = Math.min(bytes.length, id3v2Size(bytes))
+	const version = bytes[3]
+	if (end === 0 || version < 2 || version > 4 || bytes[5] & 0x80) return null
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+	const idLength = version === 2 ? 3 : 4
+	const headerLength = version === 2 ? 6 : 10
+	let position = 10
+	if (bytes[5] & 0x40 && version > 2) {
+		// Extended header, its size includes itself in version 2.4 only
+		position += version === 4 ? syncsafe(bytes, position) : view.getUint32(position) + 4
+	}
+
+	while (position + headerLength <= end) {
+		const id = decodeLatin1(bytes.subarray(position, position + idLength))
+		if (!/^[A-Z0-9]+$/.test(id)) return null // Padding
+
+		const size =
+			version === 2
+				? (bytes[position + 3] << 16) | (bytes[position + 4] << 8) | bytes[position + 5]
+				: version === 4
+					? syncsafe(bytes, position + 4)
+					: view.getUint32(position + 4)
+		const frame = bytes.subarray(position + headerLength, Math.min(end, position + headerLength + size))
+		position += headerLength + size
+
+		// Comment frame: encoding, language, description and text
+		if ((id !== 'COMM' && id !== 'COM') || frame.length < 5) continue
+		const encoding = frame[0]
+		const wide = encoding === 1 || encoding === 2
+		let textStart = 4
+		while (textStart < frame.length && !(frame[textStart] === 0 && (!wide || frame[textStart + 1] === 0))) {
+			textStart += wide ? 2 : 1
+		}
+		const description = frame.subarray(4, textStart)
+		textStart += wide ? 2 : 1
+		// The numbers are ASCII, so wide text is read by dropping its zero bytes
+		const narrow = (text: Uint8Array) => decodeLatin1(wide ? text.filter((byte) => byte !== 0) : text)
+		if (narrow(description).replace(/^\u00FE\u00FF|^\u00FF\u00FE/, '') === 'iTunSMPB') {
+			return narrow(frame.subarray(textStart))
+		}
+	}
+	return null
+}
+
+/**
+ * Reads a 28 bit ID3 syncsafe integer, made of 4 bytes of 7 bits.
+ * @param {Uint8Array} bytes - The bytes
+ * @param {number} offset - Offset of the integer
+ * @returns {number} The integer
+ */
+function syncsafe(bytes: Uint8Array, offset: number): number {
+	return (
+		((bytes[offset] & 0x7f) << 21) |
+		((bytes[offset + 1] & 0x7f) << 14) |
+		((bytes[offset + 2] & 0x7f) << 7) |
+		(bytes[offset + 3] & 0x7f)
+	)
+}
@@ -0,0 +1,15 @@
+/** Counter used when `crypto.randomUUID` is not available (e.g. insecure contexts) */
+let fallbackCounter = 0
+
+/**
+ * Creates a unique identifier, for queue items, effects or anything else the player tracks.
+ * @param {string} prefix - Prefix of the identifier when `crypto.randomUUID` is not available
+ * @returns {string} A unique identifier
+ */
+export function createId(prefix: string): string {
+	if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+		return crypto.randomUUID()
+	}
+	fallbackCounter++
+	return `${prefix}-${Date.now().toString(36)}-${fallbackCounter.toString(36)}`
+}
@@ -1,93 +1,437 @@
+import { applyFade, rampGain, resetGain } from './crossfade'
 import log from './debug'
+import { createBalanceEffect, createMonoDownmixEffect, EffectsChain } from './effects'
+import { BufferedAudio, type PlayerAudio } from './engine'
+import { Equalizer } from './equalizer'
+import { createId } from './id'
+import { computeNormalizationGain, measureLoudness } from './loudness'
+import { detectPlaylistFormat, parsePlaylist, serializePlaylist } from './playlist'
+import { albumBlockShuffle, artistSpreadShuffle, createSeededRandom, uniformShuffle, weightedShuffle } from './shuffle'
+import { selectSources } from './sources'
+import { parseSnapshot, STATE_VERSION } from './state'
+import { IndexedDBAdapter, LocalStorageAdapter } from './storage'
+import { readTags } from './tags'
+
+/** Time before the end of the current track at which the next track is preloaded, in seconds */
+const PRELOAD_LEAD_TIME = 20
+
+/** Duration of the ramp applying a normalization gain known only after the track started, in seconds */
+const NORMALIZATION_RAMP_DURATION = 0.5
+
+/** Tolerance when matching the end of a track slice with the start of the next one, in seconds */
+const SLICE_TOLERANCE = 0.05
+/** Tolerance when checking whether the buffered ranges of a media element reach its ends, in seconds */
+const BUFFERED_TOLERANCE = 0.5
+
+/** Position in a chapter before which going to the previous chapter doesn't restart the current one, in seconds */
+const CHAPTER_RESTART_THRESHOLD = 5
+
+/** Number of files whose embedded tags stay cached */
+const TAG_CACHE_SIZE = 100
+
+/** Default time-to-live of sources resolved by track resolvers, in seconds */
+const DEFAULT_SOURCE_TTL = 600
+
+/** Shortest section A–B repeat can loop, in seconds */
+const MIN_AB_REPEAT_LENGTH = 0.1
+
+/** Slowest supported playback speed */
+const MIN_PLAYBACK_RATE = 0.5
+
+/** Fastest supported playback speed */
+const MAX_PLAYBACK_RATE = 3
+
+/** States each playback state can change to */
+const STATE_TRANSITIONS: Record<PlaybackState, PlaybackState[]> = {
+	idle: ['loading', 'error'],
+	loading: ['buffering', 'playing', 'paused', 'ended', 'error', 'idle'],
+	buffering: ['loading', 'playing', 'paused', 'ended', 'error', 'idle'],
+	playing: ['loading', 'buffering', 'paused', 'ended', 'error', 'idle'],
+	paused: ['loading', 'error', 'idle'],
+	ended: ['loading', 'error', 'idle'],
+	error: ['loading', 'paused', 'idle'],
+}
+
+/** States in which playback is requested */
+const ACTIVE_STATES: PlaybackState[] = ['loading', 'buffering', 'playing']
+
+/** States reported as playing to play state listeners */
+const PLAYING_STATES: PlaybackState[] = ['buffering', 'playing']
+
+/** The active sleep timer, with what stops playback and the progress of its fade-out */
+interface SleepTimer {
+	/** What stops playback */
+	type: 'duration' | 'tracks'
+	/** Time at which playback stops, in milliseconds since the epoch, for `duration` timers */
+	endsAt: number
+	/** Tracks left to finish before playback stops, including the current one, for `tracks` timers */
+	tracksRemaining: number
+	/** Duration of the fade-out before stopping, in seconds */
+	fadeOut: number
+	/** Whether the fade-out started */
+	fading: boolean
+}
+
+/** A listener subscribed to analyser frames, with the analyser node and the buffer it reads its frames from */
+interface AnalyserSubscription {
+	/** The subscribed listener */
+	listener: AnalyserFrameListener
+	/** The analyser node of the subscription */
+	analyser: AnalyserNode
+	/** Kind of data the listener receives */
+	type: 'frequency' | 'time'
+	/** Buffer the data is written to, reused for every frame */
+	data: Uint8Array<ArrayBuffer>
+}
 
 /**
  * Music player class that handles audio playback with queue management and seamless transitions.
  * @class Player
  */
 class Player {
-	/** The queue of items to be played */
+	/** The queue of items to be played (the playback context) */
 	private queue: QueueItem[]
-	/** Current playing state */
-	private isPlaying: boolean
+	/** The user queue ("Up Next"), played before the rest of the playback context */
+	private upNext: QueueItem[]
+	/** Track of the user queue currently playing. It stays out of the playback context,
+	 * the pointer stays on the last context track played, -1 if none
+	 */
+	private currentUpNext: QueueItem | null
+	/** Information about the playback context */
+	private playbackContext: PlaybackContext | null
+	/** Current playback state */
+	private state: PlaybackState
+	/** Set of listeners for playback state changes */
+	private stateListeners: Set<StateChangeListener>
 	/** Set of listeners for play state changes */
 	private playStateListeners: Set<PlayStateChangeListener>
 	/** Set of listeners for queue changes */
 	private queueChangeListeners: Set<QueueChangeListener>
+	/** Set of listeners for granular queue changes */
+	private queueDiffListeners: Set<QueueDiffListener>
+	/** Pointer last reported to queue diff listeners */
+	private lastNotifiedPointer: number
+	/** ID of the current track last reported to queue diff listeners */
+	private lastNotifiedCurrentId: string | null
 	/** Set of listeners of playing track changes */
 	private currentPlayingChangeListeners: Set<CurrentPlayingChangeListener>
 	/** Set of listeners for playback progress changes */
 	private progressListeners: Set<PlaybackProgressListener>
 	/** Timer for progress updates */
 	private progressTimer: number | null
+	/** Set of listeners for buffering changes */
+	private bufferingListeners: Set<BufferingChangeListener>
+	/** Whether playback is waiting for the current track to load */
+	private buffering: boolean
+	/** Whether the current track has started playing, after which waiting for data is a stall */
+	private trackStarted: boolean
+	/** Time the current stall started at, from `performance.now()` */
+	private stallStartedAt: number | null
+	/** Time of the first play request of the session not yet playing, from `performance.now()` */
+	private playRequestedAt: number | null
+	/** Whether the next track has finished preloading */
+	private preloadFinished: boolean
+	/** Playback quality of the session */
+	private stats: PlaybackStats
+	/** Subscriptions to analyser frames */
+	private analyserSubscriptions: Set<AnalyserSubscription>
+	/** Animation frame request for analyser updates */
+	private analyserFrame: number | null
 	/** Set of listeners for shuffle state changes */
 	private shuffleListeners: Set<ShuffleChangeListener>
 	/** Set of listeners for loop mode changes */
 	private loopListeners: Set<LoopChangeListener>
+	/** Set of listeners for A–B repeat changes */
+	private abRepeatListeners: Set<ABRepeatChangeListener>
+	/** Set of listeners for sleep timer changes */
+	private sleepTimerListeners: Set<SleepTimerChangeListener>
+	/** Set of listeners for chapter changes */
+	private chapterListeners: Set<ChapterChangeListener>
+	/** Chapter of the current track last reported to chapter listeners */
+	private lastNotifiedChapter: TrackChapter | null
+	/** Set of listeners for volume changes */
+	private volumeListeners: Set<VolumeChangeListener>
+	/** Set of listeners for playback speed changes */
+	private playbackRateListeners: Set<PlaybackRateChangeListener>
 	/** Web Audio API context for audio processing */
 	private context: AudioContext
-	/** Audio source node for the current track */
-	private currentSource: MediaElementAudioSourceNode | null
-	/** HTML audio element for the current track */
-	private currentAudio: HTMLAudioElement | null
-	/** Audio source node for the next track (preloaded) */
-	private nextSource: MediaElementAudioSourceNode | null
-	/** HTML audio element for the next track (preloaded) */
-	private nextAudio: HTMLAudioElement | null
+	/** Playback engine creating the audio of each track */
+	private engine: PlaybackEngine
+	/** Gain node fading the output in and out when playback resumes or pauses */
+	private pauseFader: GainNode
+	/** Master gain node carrying the volume, shared by all tracks */
+	private masterGain: GainNode
+	/** Equalizer shared by all tracks, between the tracks and the master gain */
+	readonly equalizer: Equalizer
+	/** Effects chain shared by all tracks, after the equalizer */
+	private effects: EffectsChain
+	/** Volume, from 0 to 1 */
+	private volume: number
+	/** Whether the output is muted */
+	private muted: boolean
+	/** Duration of the fade when resuming or pausing, in seconds */
+	private pauseFadeDuration: number
+	/** Playback speed, 1 being the normal speed */
+	private playbackRate: number
+	/** Whether the pitch is kept when the playback speed changes */
+	private preservePitch: boolean
+	/** Output gain node (fader) of the current track */
+	private currentSource: GainNode | null
+	/** Audio (HTML audio element or buffered audio) for the current track */
+	private currentAudio: PlayerAudio | null
+	/** Output gain node (fader) of the next track (preloaded) */
+	private nextSource: GainNode | null
+	/** Audio (HTML audio element or buffered audio) for the next track (preloaded) */
+	private nextAudio: PlayerAudio | null
+	/** Queue item the preloaded next audio belongs to */
+	private nextItem: QueueItem | null
+	/** Crossfade settings */
+	private crossfade: CrossfadeOptions
+	/** Whether the next track started early to crossfade with the current one */
+	private crossfading: boolean
+	/** Whether the next track was started on purpose, by a gapless schedule or a crossfade, rather than to pre-buffer it */
+	private nextStarted: boolean
+	/** Section of the current track being repeated */
+	private abRepeat: ABRepeatRange | null
+	/** What seeking outside the repeated section does */
+	private abRepeatSeekBehavior: 'clear' | 'clamp'
+	/** The active sleep timer */
+	private sleepTimer: SleepTimer | null
+	/** Timer counting the sleep timer down */
+	private sleepTimerInterval: number | null
+	/** Timer ending a track which is a slice of its file, for the media element engine and consecutive slices */
+	private sliceEndTimer: number | null
+	/** Loudness normalization settings */
+	private normalization: NormalizationOptions
+	/** Normalization gain node of each track audio, before its fader */
+	private normalizers: WeakMap<PlayerAudio, GainNode>
+	/** Loudness measured from the decoded audio, by URL */
+	private loudnessCache: Map<string, Promise<LoudnessMeasurement | null>>
+	/** Whether missing metadata is filled from the embedded tags of tracks */
+	private tagReading: boolean
+	/** Embedded tags read from the tracks, by URL, the least recently used first */
+	private tagCache: Map<string, Promise<TrackTags | null>>
+	/** Object URLs of the artwork embedded in the tracks, by track URL, revoked once no queue item has the URL */
+	private artworkUrls: Map<string, string[]>
+	/** Queue items whose metadata was already filled from their tags */
+	private taggedItems: WeakSet<QueueItem>
+	/** How long sources resolved by track resolvers stay valid, in seconds */
+	private sourceTTL: number
+	/** Sources resolved by track resolvers, with their expiry time in milliseconds since the epoch */
+	private resolvedSources: WeakMap<QueueItem, { url: string; expiresAt: number }>
+	/** Object URLs of Blob sources, revoked once their tracks leave the queue */
+	private blobUrls: Map<Blob, string>
+	/** Pending source loads of track audios, playing waits for them */
+	private pendingSources: WeakMap<PlayerAudio, Promise<void>>
+	/** Track audios whose source was resolved again after failing, until they can play */
+	private refreshedAudios: WeakSet<PlayerAudio>
+	/** Which of the sources of a track is preferred */
+	private qualityPreference: QualityPreference
+	/** Element asking the browser which sources it can play */
+	private typeProbe: HTMLAudioElement
+	/** Source each track audio plays, for tracks with several sources */
+	private playingSources: WeakMap<PlayerAudio, TrackSourceOption>
+	/** Sources each track audio falls back to when its source fails, in order */
+	private fallbackSources: WeakMap<PlayerAudio, TrackSourceOption[]>
+	/** Set of error listeners */
+	private errorListeners: Set<ErrorListener>
+	/** What the player does when the current track fails */
+	private errorPolicy: ErrorPolicy
+	/** Number of retries of the current track */
+	private retryCount: number
+	/** Number of tracks which failed in a row */
+	private consecutiveFailures: number
+	/** Timer retrying the current track */
+	private retryTimer: number | null
+	/** Next track whose preload failed, it isn't preloaded again until another track becomes current */
+	private failedPreload: QueueItem | null
 	/** Index of the currently playing item in the queue */
 	private currentPlayingPointer: number
 	/** Store the order of the actual play queue */
 	private order: number[]
 	/** Shuffle flag */
 	private shuffle: boolean
+	/** Strategy deciding the shuffled play order */
+	private shuffleStrategy: ShuffleStrategy
+	/** Random number generator used for shuffling */
+	private random: () => number
 	/** Loop flag */
 	private loop: 'off' | 'entire_queue' | 'single_track'
+	/** Provider of more tracks when the queue is about to run out */
+	private exhaustionProvider: QueueExhaustingProvider | null
+	/** Number of remaining tracks at which the provider is called */
+	private exhaustionThreshold: number
+	/** Pending request to the provider */
+	private exhaustionRequest: Promise<void> | null
+	/** ID of the current track the provider was last called for */
+	private exhaustionRequestedFor: string | null
+	/** Incremented each time the playback context is replaced, tracks provided for an older one are dropped */
+	private queueGeneration: number
+	/** Storage adapter for session autosave */
+	private storage: PlayerStorageAdapter | null
+	/** Timer for the pending autosave */
+	private autosaveTimer: number | null
 
 	/**
 	 * Creates a new player instance.
 	 * Initializes the AudioContext and sets up the initial state.
+	 * @param {PlayerOptions} [options] - Player options
 	 * @constructor
 	 */
-	constructor() {
+	constructor(options: PlayerOptions = {}) {
 		this.queue = []
-		this.isPlaying = false
+		this.upNext = []
+		this.currentUpNext = null
+		this.playbackContext = null
+		this.state = 'idle'
+		this.stateListeners = new Set()
 		this.playStateListeners = new Set()
 		this.queueChangeListeners = new Set()
+		this.queueDiffListeners = new Set()
+		this.lastNotifiedPointer = 0
+		this.lastNotifiedCurrentId = null
 		this.currentPlayingChangeListeners = new Set()
 		this.progressListeners = new Set()
 		this.progressTimer = null
+		this.bufferingListeners = new Set()
+		this.buffering = false
+		this.trackStarted = false
+		this.stallStartedAt = null
+		this.playRequestedAt = null
+		this.preloadFinished = false
+		this.stats = {
+			startupLatency: null,
+			stallCount: 0,
+			stallTime: 0,
+			transitions: 0,
+			preloadedTransitions: 0,
+			lastTransitionPreloaded: null,
+		}
+		this.analyserSubscriptions = new Set()
+		this.analyserFrame = null
 		this.shuffleListeners = new Set()
 		this.loopListeners = new Set()
+		this.abRepeatListeners = new Set()
+		this.sleepTimerListeners = new Set()
+		this.chapterListeners = new Set()
+		this.lastNotifiedChapter = null
+		this.volumeListeners = new Set()
+		this.playbackRateListeners = new Set()
 		this.context = new AudioContext()
+		this.engine = options.engine ?? 'media_element'
+		this.volume = Math.min(1, Math.max(0, options.volume ?? 1))
+		this.muted = options.muted ?? false
+		this.pauseFadeDuration = Math.max(0, options.pauseFade ?? 0)
+		this.playbackRate = 1
+		this.preservePitch = true
+		this.masterGain = this.context.createGain()
+		this.masterGain.gain.value = this.muted ? 0 : this.volume
+		this.masterGain.connect(this.context.destination)
+		this.effects = new EffectsChain(this.context)
+		this.effects.output.connect(this.masterGain)
+		this.equalizer = new Equalizer(this.context)
+		this.equalizer.output.connect(this.effects.input)
+		this.pauseFader = this.context.createGain()
+		this.pauseFader.connect(this.equalizer.input)
 		this.currentSource = null
 		this.currentAudio = null
 		this.nextSource = null
 		this.nextAudio = null
+		this.nextItem = null
+		this.crossfade = { duration: 0, curve: 'equal_power', onSkip: false, ...options.crossfade }
+		this.crossfading = false
+		this.nextStarted = false
+		this.abRepeat = null
+		this.abRepeatSeekBehavior = 'clear'
+		this.sleepTimer = null
+		this.sleepTimerInterval = null
+		this.sliceEndTimer = null
+		this.normalization = {
+			mode: 'off',
+			targetLoudness: -18,
+			analyze: this.engine === 'web_audio',
+			...options.normalization,
+		}
+		this.normalizers = new WeakMap()
+		this.loudnessCache = new Map()
+		this.tagReading = options.readTags ?? false
+		this.tagCache = new Map()
+		this.artworkUrls = new Map()
+		this.taggedItems = new WeakSet()
+		this.sourceTTL = options.sourceTTL ?? DEFAULT_SOURCE_TTL
+		this.resolvedSources = new WeakMap()
+		this.blobUrls = new Map()
+		this.pendingSources = new WeakMap()
+		this.refreshedAudios = new WeakSet()
+		this.qualityPreference = options.quality ?? 'auto'
+		this.typeProbe = new Audio()
+		this.playingSources = new WeakMap()
+		this.fallbackSources = new WeakMap()
+		this.errorListeners = new Set()
+		this.errorPolicy = {
+			action: 'skip',
+			maxRetries: 2,
+			retryDelay: 1,
+			maxConsecutiveFailures: 5,
+			...options.errorPolicy,
+		}
+		this.retryCount = 0
+		this.consecutiveFailures = 0
+		this.retryTimer = null
+		this.failedPreload = null
 		this.currentPlayingPointer = 0
 		this.order = []
 		this.shuffle = false
+		this.shuffleStrategy = options.shuffleStrategy ?? uniformShuffle
+		this.random = options.shuffleSeed !== undefined ? createSeededRandom(options.shuffleSeed) : Math.random
 		this.loop = 'off'
+		this.exhaustionProvider = null
+		this.exhaustionThreshold = 2
+		this.exhaustionRequest = null
+		this.exhaustionRequestedFor = null
+		this.queueGeneration = 0
+		this.storage = options.storage ?? null
+		this.autosaveTimer = null
+
+		// Save the latest position before the page goes away
+		if (this.storage) {
+			window.addEventListener('pagehide', this.flushAutosave)
+		}
 	}
 
 	/**
-	 * Replaces the entire play queue with a new queue.
+	 * Replaces the playback context queue with a new queue, stopping the current track.
+	 * The user queue ("Up Next") is kept, a track of it playing stays current and starts over when played.
 	 * @param {QueueItem[]} queue - The new play queue array
+	 * @param {PlaybackContext} [context] - Information about where the queue comes from, e.g. an album
 	 * @fires QueueChangeListener
 	 */
-	replaceQueue = (queue: QueueItem[]) => {
-		this.queue = queue
+	replaceQueue = (queue: QueueItem[], context?: PlaybackContext) => {
+		this.queueGeneration++
+		this.queue = queue.map(this.prepareTrack)
+		this.playbackContext = context ?? null
 
 		// reset shuffle and loop mode
 		this.shuffle = false
 		this.loop = 'off'
 
-		// remove the audio, to prevent some edge cases
+		// Stop the current audio, the new context doesn't continue from it
+		if (this.isPlaying) this.stopPlayback('paused')
+		this.currentAudio?.pause()
+		this.currentSource?.disconnect()
 		this.currentAudio = null
+		this.currentSource = null
+		this.cancelNext()
+		this.setState('idle')
+
+		// A track of the user queue keeps being current, the new context follows it from the start
+		if (this.currentUpNext) this.currentPlayingPointer = -1
 
 		const newOrder = []
 		for (const i in queue) newOrder.push(parseInt(i, 10))
 		this.order = newOrder
 
-		this.notifyQueueChange()
+		this.notifyQueueChange([{ type: 'replaced', items: this.fetchQueue() }])
 	}
 
 	/**
@@ -108,11 +452,151 @@ class Player {
 			}
 		}
 
-		return structuredClone(orderedQueue)
+		return orderedQueue.map(this.cloneTrack)
+	}
+
+	/**
+	 * Fetches the user queue ("Up Next").
+	 * @returns {QueueItem[]} A deep copy of the user queue in play order
+	 */
+	fetchUpNext = (): QueueItem[] => {
+		return this.upNext.map(this.cloneTrack)
+	}
+
+	/**
+	 * Gets the information about the playback context.
+	 * @returns {PlaybackContext | null} The context given to `replaceQueue`, or null if none
+	 */
+	getPlaybackContext = (): PlaybackContext | null => {
+		return this.playbackContext ? { ...this.playbackContext } : null
+	}
+
+	/**
+	 * Exports the current queue as a playlist file, titled after the playback context.
+	 * @param {PlaylistFormat} format - The format of the file
+	 * @returns {string} The content of the playlist file, with the tracks in the actual play order
+	 */
+	exportPlaylist = (format: PlaylistFormat): string => {
+		return serializePlaylist(this.fetchQueue(), format, { title: this.playbackContext?.title })
+	}
+
+	/**
+	 * Exports the current session as a serializable snapshot.
+	 * @returns {PlayerStateSnapshot} A snapshot of the queue, play order, current track, position and play modes
+	 */
+	exportState = (): PlayerStateSnapshot => {
+		return {
+			version: STATE_VERSION,
+			queue: this.queue.map(this.toSnapshotTrack),
+			upNext: (this.currentUpNext ? [this.currentUpNext, ...this.upNext] : this.upNext).map(this.toSnapshotTrack),
+			context: this.playbackContext ? { ...this.playbackContext } : null,
+			order: [...this.order],
+			currentPlayingPointer: this.currentPlayingPointer,
+			currentFromUpNext: this.currentUpNext !== null,
+			currentTime: this.getTrackPosition(),
+			shuffle: this.shuffle,
+			loop: this.loop,
+		}
+	}
+
+	/**
+	 * Restores a session from a snapshot created by `exportState`.
+	 * The current track is loaded paused at the saved position, so no autoplay policy is involved.
+	 * Snapshots of older schema versions are migrated.
+	 * @param {unknown} value - The snapshot to restore
+	 * @returns {Promise<boolean>} Success status - true if the snapshot was restored, false if it is invalid
+	 * @fires QueueChangeListener
+	 * @fires ShuffleChangeListener
+	 * @fires LoopChangeListener
+	 * @fires CurrentPlayingChangeListener
+	 */
+	restoreState = async (value: unknown): Promise<boolean> => {
+		const snapshot = parseSnapshot(value)
+		if (!snapshot) {
+			log.player('Invalid player state snapshot')
+			return false
+		}
+
+		// Stop whatever is playing now
+		if (this.isPlaying) await this.togglePlaying(false)
+		this.currentAudio?.pause()
+		this.currentSource?.disconnect()
+		this.currentAudio = null
+		this.currentSource = null
+		this.cancelNext()
+		this.setState('idle')
+
+		this.queueGeneration++
+		this.queue = snapshot.queue.map(this.prepareTrack)
+		this.upNext = snapshot.upNext.map(this.prepareTrack)
+		this.currentUpNext = (snapshot.currentFromUpNext && this.upNext.shift()) || null
+		this.playbackContext = snapshot.context
+		this.order = [...snapshot.order]
+		this.currentPlayingPointer = Math.min(
+			Math.max(this.currentUpNext ? -1 : 0, snapshot.currentPlayingPointer),
+			Math.max(0, this.order.length - 1),
+		)
+		this.shuffle = snapshot.shuffle
+		this.loop = snapshot.loop
+
+		this.shuffleListeners.forEach((listener) => {
+			listener(this.shuffle)
+		})
+		this.loopListeners.forEach((listener) => {
+			listener(this.loop)
+		})
+
+		this.notifyQueueChange([
+			{ type: 'replaced', items: this.fetchQueue() },
+			{ type: 'up_next_changed', items: this.fetchUpNext() },
+		])
+
+		// Load the current track at the saved position without playing it
+		if (this.getCurrentTrack()) {
+			await this.loadCurrentTrack(Math.max(0, snapshot.currentTime))
+		}
+
+		log.player('Player state restored')
+		return true
+	}
+
+	/**
+	 * Restores the session saved by the storage adapter given in the constructor options.
+	 * @returns {Promise<boolean>} Success status - true if a saved session was restored, false otherwise
+	 */
+	restoreFromStorage = async (): Promise<boolean> => {
+		if (!this.storage) {
+			log.player('No storage adapter configured')
+			return false
+		}
+
+		try {
+			const snapshot = await this.storage.load()
+			if (snapshot === null) return false
+			return await this.restoreState(snapshot)
+		} catch (error) {
+			log.player('Failed to load saved player state:', error)
+			return false
+		}
+	}
+
+	/**
+	 * Subscribes to playback state changes.
+	 * @param {StateChangeListener} listener - Callback function that will be called with the new and the previous state
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onStateChange = (listener: StateChangeListener): { destroy: () => void } => {
+		this.stateListeners.add(listener)
+		return {
+			destroy: () => {
+				this.stateListeners.delete(listener)
+			},
+		}
 	}
 
 	/**
-	 * Subscribes to play state changes.
+	 * Subscribes to play state changes, derived from the playback state.
+	 * Reports true once audio actually plays, not when playback is requested.
 	 * @param {PlayStateChangeListener} listener - Callback function that will be called when play state changes
 	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
 	 */
@@ -164,6 +648,64 @@ class Player {
 		}
 	}
 
+	/**
+	 * Subscribes to buffering changes, e.g. to show a spinner while playback waits for the network.
+	 * @param {BufferingChangeListener} listener - Callback function that will be called when buffering starts or ends
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onBufferingChange = (listener: BufferingChangeListener): { destroy: () => void } => {
+		this.bufferingListeners.add(listener)
+		listener(this.buffering)
+
+		return {
+			destroy: () => {
+				this.bufferingListeners.delete(listener)
+			},
+		}
+	}
+
+	/**
+	 * Subscribes to analyser frames of the master output, for visualizers.
+	 * Frames are sent on every animation frame while audio is playing, and follow track changes.
+	 * @param {AnalyserFrameListener} listener - Callback function that will be called with the data of each frame
+	 * @param {AnalyserOptions} [options] - FFT size, smoothing and kind of data
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onAnalyserFrame = (listener: AnalyserFrameListener, options: AnalyserOptions = {}): { destroy: () => void } => {
+		const analyser = this.context.createAnalyser()
+		// The FFT size has to be a power of two between 32 and 32768
+		const fftSize = 2 ** Math.round(Math.log2(options.fftSize ?? 2048))
+		analyser.fftSize = Math.min(32768, Math.max(32, fftSize || 2048))
+		analyser.smoothingTimeConstant = Math.min(1, Math.max(0, options.smoothing ?? 0.8))
+		this.masterGain.connect(analyser)
+
+		const type = options.type ?? 'frequency'
+		const subscription: AnalyserSubscription = {
+			listener,
+			analyser,
+			type,
+			data: new Uint8Array(type === 'frequency' ? analyser.frequencyBinCount : analyser.fftSize),
+		}
+		this.analyserSubscriptions.add(subscription)
+
+		// Start analyser updates if this is the first listener and audio is playing
+		if (this.analyserSubscriptions.size === 1 && this.isPlaying) {
+			this.startAnalyserUpdates()
+		}
+
+		return {
+			destroy: () => {
+				if (!this.analyserSubscriptions.delete(subscription)) return
+				this.masterGain.disconnect(analyser)
+
+				// Stop analyser updates if no more listeners
+				if (this.analyserSubscriptions.size === 0) {
+					this.stopAnalyserUpdates()
+				}
+			},
+		}
+	}
+
 	/**
 	 * Subscribes to shuffle state changes.
 	 * @param {ShuffleChangeListener} listener - Callback function that will be called when shuffle state changes
@@ -200,48 +742,155 @@ class Player {
 		}
 	}
 
+	/**
+	 * Subscribes to volume changes.
+	 * @param {VolumeChangeListener} listener - Callback function that will be called when the volume or mute state changes
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onVolumeChange = (listener: VolumeChangeListener): { destroy: () => void } => {
+		this.volumeListeners.add(listener)
+
+		// Immediately call the listener with the current state
+		listener(this.volume, this.muted)
+
+		return {
+			destroy: () => {
+				this.volumeListeners.delete(listener)
+			},
+		}
+	}
+
+	/**
+	 * Subscribes to playback speed changes.
+	 * @param {PlaybackRateChangeListener} listener - Callback function that will be called when the playback speed changes
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onPlaybackRateChange = (listener: PlaybackRateChangeListener): { destroy: () => void } => {
+		this.playbackRateListeners.add(listener)
+
+		// Immediately call the listener with the current state
+		listener(this.playbackRate, this.preservePitch)
+
+		return {
+			destroy: () => {
+				this.playbackRateListeners.delete(listener)
+			},
+		}
+	}
+
+	/**
+	 * Subscribes to A–B repeat changes.
+	 * @param {ABRepeatChangeListener} listener - Callback function that will be called when the repeated section changes
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onABRepeatChange = (listener: ABRepeatChangeListener): { destroy: () => void } => {
+		this.abRepeatListeners.add(listener)
+
+		// Immediately call the listener with the current state
+		listener(this.abRepeat ? { ...this.abRepeat } : null)
+
+		return {
+			destroy: () => {
+				this.abRepeatListeners.delete(listener)
+			},
+		}
+	}
+
+	/**
+	 * Subscribes to sleep timer changes. The listener is also called every second while a timer runs, as a countdown.
+	 * @param {SleepTimerChangeListener} listener - Callback function that will be called when the sleep timer changes
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onSleepTimerChange = (listener: SleepTimerChangeListener): { destroy: () => void } => {
+		this.sleepTimerListeners.add(listener)
+
+		// Immediately call the listener with the current state
+		listener(this.getSleepTimer())
+
+		return {
+			destroy: () => {
+				this.sleepTimerListeners.delete(listener)
+			},
+		}
+	}
+
+	/**
+	 * Subscribes to chapter changes, when playback enters another chapter of the current track.
+	 * @param {ChapterChangeListener} listener - Callback function that will be called when the chapter changes
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onChapterChange = (listener: ChapterChangeListener): { destroy: () => void } => {
+		this.chapterListeners.add(listener)
+
+		// Immediately call the listener with the current state
+		listener(this.getCurrentChapter())
+
+		return {
+			destroy: () => {
+				this.chapterListeners.delete(listener)
+			},
+		}
+	}
+
+	/**
+	 * Subscribes to playback errors, e.g. to tell users a track is unavailable.
+	 * @param {ErrorListener} listener - Callback function that will be called when a track fails
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onError = (listener: ErrorListener): { destroy: () => void } => {
+		this.errorListeners.add(listener)
+
+		return {
+			destroy: () => {
+				this.errorListeners.delete(listener)
+			},
+		}
+	}
+
 	/**
 	 * Toggles the playing state or sets it to a specific value.
+	 * Playing goes through the `loading` state until audio actually plays.
 	 * @param {boolean} [playing] - Optional specific playing state. If not provided, toggles current state
 	 * @returns {Promise<void>}
+	 * @fires StateChangeListener
 	 * @fires PlayStateChangeListener
 	 */
 	togglePlaying = async (playing?: boolean) => {
 		const newState = playing !== undefined ? playing : !this.isPlaying
 		if (this.isPlaying === newState) return
-		this.isPlaying = newState
-		log.player(`Play state changed to: ${newState}`)
-
-		// Start or stop progress updates based on playing state and listeners
-		if (newState && this.progressListeners.size > 0) {
-			this.startProgressUpdates()
-		} else {
-			this.stopProgressUpdates()
+		if (!newState) {
+			this.stopPlayback('paused')
+			return
 		}
+		this.setState('loading')
+
+		// Startup latency is measured from the first play request, a pause starts over
+		if (this.stats.startupLatency === null) this.playRequestedAt = performance.now()
+
+		// Start progress updates if there are listeners
+		if (this.progressListeners.size > 0) this.startProgressUpdates()
+		if (this.analyserSubscriptions.size > 0) this.startAnalyserUpdates()
 
-		this.playStateListeners.forEach((listener) => {
-			listener(newState)
-		})
 		this.reportMetadata()
-		if (newState) {
-			try {
-				await this.startPlay()
-			} catch (error) {
-				log.player('Failed to start playback:', error)
-				// Playback failed, state already reset in startPlay if needed
-			}
-		} else {
-			this.pausePlay()
+		this.requestAutosave()
+		try {
+			await this.startPlay()
+		} catch (error) {
+			log.player('Failed to start playback:', error)
+			// Playback failed, state already reset in startPlay if needed
 		}
 	}
 
 	/**
 	 * Toggles the shuffle state or sets it to a specific value.
 	 * @param {boolean} shuffle - Optional specific shuffle state. If not provided, toggles current state
+	 * @param {ShuffleStrategy} strategy - Optional shuffle strategy, used from now on. Defaults to the current one
 	 * @fires ShuffleChangeListener
 	 * @fires QueueChangeListener
 	 */
-	toggleShuffle = (shuffle?: boolean) => {
+	toggleShuffle = (shuffle?: boolean, strategy?: ShuffleStrategy) => {
+		if (strategy) this.shuffleStrategy = strategy
+
 		const newState = shuffle !== undefined ? shuffle : !this.shuffle
 		if (this.shuffle === newState) return
 
@@ -261,7 +910,7 @@ class Player {
 		})
 
 		// Notify queue listeners about the new order
-		this.notifyQueueChange()
+		this.notifyQueueChange([{ type: 'reordered', ids: this.order.map((index) => this.queue[index].id!) }])
 	}
 
 	/**
@@ -281,11 +930,161 @@ class Player {
 	}
 
 	/**
-	 * Gets the current playing state.
-	 * @returns {boolean} Current playing state (true if playing, false if paused/stopped)
+	 * Gets the current playing state, derived from the playback state.
+	 * @returns {boolean} Current playing state (true if playing or buffering, false otherwise)
 	 */
 	getPlayingState = (): boolean => {
-		return this.isPlaying
+		return PLAYING_STATES.includes(this.state)
+	}
+
+	/**
+	 * Gets the playback state.
+	 * @returns {PlaybackState} The current state
+	 */
+	getState = (): PlaybackState => {
+		return this.state
+	}
+
+	/**
+	 * Sets the volume of the player. The volume is kept across track changes.
+	 * @param {number} volume - The volume, from 0 to 1
+	 * @fires VolumeChangeListener
+	 */
+	setVolume = (volume: number) => {
+		const newVolume = Math.min(1, Math.max(0, volume))
+		if (Number.isNaN(newVolume) || newVolume === this.volume) return
+		this.volume = newVolume
+		log.player(`Volume changed to: ${newVolume}`)
+		this.applyVolume()
+	}
+
+	/**
+	 * Gets the volume of the player.
+	 * The volume is kept while muted.
+	 * @returns {number} The volume, from 0 to 1
+	 */
+	getVolume = (): number => {
+		return this.volume
+	}
+
+	/**
+	 * Mutes the output, keeping the volume.
+	 * @fires VolumeChangeListener
+	 */
+	mute = () => {
+		if (this.muted) return
+		this.muted = true
+		log.player('Muted')
+		this.applyVolume()
+	}
+
+	/**
+	 * Unmutes the output, restoring the volume.
+	 * @fires VolumeChangeListener
+	 */
+	unmute = () => {
+		if (!this.muted) return
+		this.muted = false
+		log.player('Unmuted')
+		this.applyVolume()
+	}
+
+	/**
+	 * Gets the mute state.
+	 * @returns {boolean} True if the output is muted
+	 */
+	getMutedState = (): boolean => {
+		return this.muted
+	}
+
+	/**
+	 * Sets the playback speed. The speed is kept across track changes.
+	 * The Web Audio engine can't preserve the pitch, the pitch always follows the speed there.
+	 * @param {number} rate - The playback speed, from 0.5 to 3, 1 being the normal speed
+	 * @param {PlaybackRateOptions} [options] - Pitch options, the current setting is kept when omitted
+	 * @returns {boolean} Success status - true if the speed was applied, false if it is not a number
+	 * @fires PlaybackRateChangeListener
+	 */
+	setPlaybackRate = (rate: number, options: PlaybackRateOptions = {}): boolean => {
+		if (Number.isNaN(rate)) {
+			log.player('Invalid playback rate:', rate)
+			return false
+		}
+
+		const newRate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate))
+		const preservePitch = options.preservePitch ?? this.preservePitch
+		if (newRate === this.playbackRate && preservePitch === this.preservePitch) return true
+
+		this.playbackRate = newRate
+		this.preservePitch = preservePitch
+		log.player(`Playback rate changed to: ${newRate} (preserve pitch: ${preservePitch})`)
+
+		if (this.currentAudio) this.applyPlaybackRate(this.currentAudio)
+		if (this.nextAudio) this.applyPlaybackRate(this.nextAudio)
+
+		// The time left in the current track changed
+		this.updateNextTrackSchedule()
+		this.reportPositionState()
+
+		this.playbackRateListeners.forEach((listener) => {
+			listener(newRate, preservePitch)
+		})
+		return true
+	}
+
+	/**
+	 * Gets the playback speed.
+	 * @returns {number} The playback speed, 1 being the normal speed
+	 */
+	getPlaybackRate = (): number => {
+		return this.playbackRate
+	}
+
+	/**
+	 * Adds an audio effect to the effects chain, which processes all tracks after the equalizer.
+	 * Effects are created in the player's audio context, pass a factory to create them there.
+	 * @param {AudioEffectNodes | AudioEffectFactory} effect - The nodes of the effect, or a factory creating them
+	 * @param {AddEffectOptions} [options] - Name, position and bypass state of the effect
+	 * @returns {string} The ID of the effect
+	 */
+	addEffect = (effect: AudioEffectNodes | AudioEffectFactory, options?: AddEffectOptions): string => {
+		return this.effects.add(effect, options)
+	}
+
+	/**
+	 * Removes an audio effect from the effects chain.
+	 * @param {string} id - The ID of the effect
+	 * @returns {boolean} Success status - true if the effect was removed
+	 */
+	removeEffect = (id: string): boolean => {
+		return this.effects.remove(id)
+	}
+
+	/**
+	 * Reorders the effects chain.
+	 * @param {string[]} ids - The IDs of all effects, in the new order
+	 * @returns {boolean} Success status - false if the IDs don't match the effects of the chain
+	 */
+	reorderEffects = (ids: string[]): boolean => {
+		return this.effects.reorder(ids)
+	}
+
+	/**
+	 * Bypasses an audio effect or brings it back, with a short fade instead of interrupting playback.
+	 * @param {string} id - The ID of the effect
+	 * @param {boolean} bypassed - Whether to bypass the effect
+	 * @returns {boolean} Success status - true if the effect was found
+	 */
+	setEffectBypassed = (id: string, bypassed: boolean): boolean => {
+		return this.effects.setBypassed(id, bypassed)
+	}
+
+	/**
+	 * Gets the effects of the effects chain.
+	 * @returns {AudioEffectInfo[]} The effects, in chain order
+	 */
+	getEffects = (): AudioEffectInfo[] => {
+		return this.effects.list()
 	}
 
 	/**
@@ -299,7 +1098,8 @@ class Player {
 			return false
 		}
 
-		const duration = this.currentAudio.duration
+		const slice = this.getSlice(this.getCurrentTrack(), this.currentAudio)
+		const duration = slice.end - slice.start
 
 		// Check if duration is valid
 		if (Number.isNaN(duration) || duration <= 0) {
@@ -308,29 +1108,28 @@ class Player {
 		}
 
 		// Clamp the seek time to valid range [0, duration]
-		const clampedTime = Math.max(0, Math.min(time, duration))
+		let clampedTime = Math.max(0, Math.min(time, duration))
+
+		// Seeking outside the repeated section clamps to it or stops repeating
+		if (this.abRepeat && (clampedTime < this.abRepeat.start || clampedTime >= this.abRepeat.end)) {
+			if (this.abRepeatSeekBehavior === 'clamp') {
+				clampedTime = Math.max(this.abRepeat.start, Math.min(clampedTime, this.abRepeat.end - MIN_AB_REPEAT_LENGTH))
+			} else {
+				this.clearABRepeat()
+			}
+		}
 
 		log.player(`Seeking to ${clampedTime} seconds (duration: ${duration})`)
 
 		try {
-			this.currentAudio.currentTime = clampedTime
+			this.currentAudio.currentTime = slice.start + clampedTime
 
 			// Immediately notify progress listeners about the seek
-			if (this.progressListeners.size > 0) {
-				const percentage = (clampedTime / duration) * 100
-				const progress: PlaybackProgress = {
-					currentTime: clampedTime,
-					duration,
-					percentage,
-				}
-
-				this.progressListeners.forEach((listener) => {
-					listener(progress)
-				})
-			}
+			this.notifyProgress(clampedTime)
 
 			// Check if we need to schedule/cancel next track based on new position
 			this.updateNextTrackSchedule()
+			this.requestAutosave()
 
 			return true
 		} catch (error) {
@@ -350,7 +1149,7 @@ class Player {
 			return false
 		}
 
-		const duration = this.currentAudio.duration
+		const duration = this.getTrackDuration()
 
 		// Check if duration is valid
 		if (Number.isNaN(duration) || duration <= 0) {
@@ -376,7 +1175,7 @@ class Player {
 			return false
 		}
 
-		const currentTime = this.currentAudio.currentTime
+		const currentTime = this.getTrackPosition()
 		const targetTime = currentTime + seconds
 
 		return this.seekTo(targetTime)
@@ -384,18 +1183,19 @@ class Player {
 
 	/**
 	 * Skips to the next track in the queue.
+	 * Takes the first track of the user queue ("Up Next") if there is one.
 	 * Respects the current play state - only auto-plays if currently playing.
 	 * @returns {Promise<void>}
 	 */
 	skipToNext = async () => {
-		if (this.currentPlayingPointer + 1 < this.queue.length) {
+		if (this.hasFollowingTrack()) {
 			log.player('Skipping to next track')
 
 			const wasPlaying = this.isPlaying
-			const nextTrackIndex = this.currentPlayingPointer + 1
+			this.moveToNextTrack()
 
 			// Switch to the next track without auto-playing
-			await this.switchToTrack(nextTrackIndex)
+			await this.loadCurrentTrack(0, wasPlaying && this.shouldCrossfadeSkip())
 
 			// If music was playing before, resume playback
 			if (wasPlaying) {
@@ -416,16 +1216,17 @@ class Player {
 	skipToPrevious = async () => {
 		const wasPlaying = this.isPlaying
 
+		// The track before one of the user queue is the last context track played
+		const prevTrackIndex = this.currentUpNext ? this.currentPlayingPointer : this.currentPlayingPointer - 1
+
 		// If current track has played less than 5 seconds, go to previous track
 		// Otherwise, restart the current track
-		if ((this.currentAudio?.currentTime ?? 0) < 5 && this.currentPlayingPointer > 0) {
+		if (this.getTrackPosition() < 5 && prevTrackIndex >= 0) {
 			log.player('current play progress is less than 5 secs')
 			log.player('Skipping to previous track')
 
-			const prevTrackIndex = this.currentPlayingPointer - 1
-
 			// Switch to the previous track without auto-playing
-			await this.switchToTrack(prevTrackIndex)
+			await this.switchToTrack(prevTrackIndex, 0, wasPlaying && this.shouldCrossfadeSkip())
 
 			// If music was playing before, resume playback
 			if (wasPlaying) {
@@ -434,29 +1235,179 @@ class Player {
 		} else {
 			// Restart current track from beginning
 			if (this.currentAudio) {
-				this.currentAudio.currentTime = 0
+				this.currentAudio.currentTime = this.getSlice(this.getCurrentTrack(), this.currentAudio).start
 
 				// Trigger progress change notification for the reset
-				if (this.progressListeners.size > 0) {
-					const progress: PlaybackProgress = {
-						currentTime: 0,
-						duration: this.currentAudio.duration || 0,
-						percentage: 0,
-					}
-
-					this.progressListeners.forEach((listener) => {
-						listener(progress)
-					})
-				}
+				this.notifyProgress(0)
 
 				// Only resume playing if it was playing before
 				if (wasPlaying && this.currentAudio.paused) {
-					await this.currentAudio.play()
+					await this.playAudio(this.currentAudio)
 				}
 			}
 		}
 	}
 
+	/**
+	 * Jumps to a specific track of the play queue.
+	 * The position refers to the actual play order, as returned by `fetchQueue`, so it follows the shuffle order.
+	 * @param {number} position - The position in the play order to jump to
+	 * @param {PlayAtOptions} [options] - Playback options
+	 * @returns {Promise<boolean>} Success status - true if the track was switched, false otherwise
+	 * @fires CurrentPlayingChangeListener
+	 * @fires PlayStateChangeListener
+	 */
+	playAt = async (position: number, options: PlayAtOptions = {}): Promise<boolean> => {
+		const { autoplay = true, startTime = 0 } = options
+
+		if (!Number.isInteger(position) || position < 0 || position >= this.order.length) {
+			log.player('Invalid play position:', position)
+			return false
+		}
+
+		log.player(`Jumping to track at position ${position}`)
+
+		// Switch without playing, this also drops any preloaded next track
+		await this.switchToTrack(position, Math.max(0, startTime), autoplay && this.isPlaying && this.shouldCrossfadeSkip())
+
+		if (!autoplay) {
+			// Keep the new track paused
+			if (this.isPlaying) await this.togglePlaying(false)
+			return true
+		}
+
+		if (!this.isPlaying) {
+			await this.togglePlaying(true)
+			return true
+		}
+
+		try {
+			await this.startPlay()
+		} catch (error) {
+			log.player('Failed to start playback:', error)
+		}
+		return true
+	}
+
+	/**
+	 * Configures the crossfade between tracks.
+	 * Crossfade is never applied while looping a single track.
+	 * @param {Partial<CrossfadeOptions>} options - The crossfade settings to change
+	 */
+	setCrossfade = (options: Partial<CrossfadeOptions>) => {
+		this.crossfade = { ...this.crossfade, ...options }
+		this.crossfade.duration = Math.max(0, this.crossfade.duration)
+		log.player('Crossfade changed to:', this.crossfade)
+
+		// The preload window depends on the crossfade duration
+		this.updateNextTrackSchedule()
+	}
+
+	/**
+	 * Gets the crossfade settings.
+	 * @returns {CrossfadeOptions} A copy of the crossfade settings
+	 */
+	getCrossfade = (): CrossfadeOptions => {
+		return { ...this.crossfade }
+	}
+
+	/**
+	 * Configures loudness normalization. Applies to the current track right away.
+	 * @param {Partial<NormalizationOptions>} options - The normalization settings to change
+	 */
+	setNormalization = (options: Partial<NormalizationOptions>) => {
+		this.normalization = { ...this.normalization, ...options }
+		log.player('Normalization changed to:', this.normalization)
+
+		const currentTrack = this.getCurrentTrack()
+		if (this.currentAudio && currentTrack) this.applyNormalization(this.currentAudio, currentTrack)
+		if (this.nextAudio && this.nextItem) this.applyNormalization(this.nextAudio, this.nextItem)
+	}
+
+	/**
+	 * Gets the loudness normalization settings.
+	 * @returns {NormalizationOptions} A copy of the normalization settings
+	 */
+	getNormalization = (): NormalizationOptions => {
+		return { ...this.normalization }
+	}
+
+	/**
+	 * Configures what the player does when a track fails to play.
+	 * @param {Partial<ErrorPolicy>} policy - The error policy settings to change
+	 */
+	setErrorPolicy = (policy: Partial<ErrorPolicy>) => {
+		this.errorPolicy = { ...this.errorPolicy, ...policy }
+		log.player('Error policy changed to:', this.errorPolicy)
+	}
+
+	/**
+	 * Gets the error policy.
+	 * @returns {ErrorPolicy} A copy of the error policy
+	 */
+	getErrorPolicy = (): ErrorPolicy => {
+		return { ...this.errorPolicy }
+	}
+
+	/**
+	 * Gets the playback quality stats of the session.
+	 * @returns {PlaybackStats} A copy of the stats, including a stall in progress
+	 */
+	getPlaybackStats = (): PlaybackStats => {
+		const ongoingStall = this.stallStartedAt !== null ? (performance.now() - this.stallStartedAt) / 1000 : 0
+		return { ...this.stats, stallTime: this.stats.stallTime + ongoingStall }
+	}
+
+	/**
+	 * Starts a new session of playback quality stats.
+	 */
+	resetPlaybackStats = () => {
+		this.stats = {
+			startupLatency: null,
+			stallCount: 0,
+			stallTime: 0,
+			transitions: 0,
+			preloadedTransitions: 0,
+			lastTransitionPreloaded: null,
+		}
+		this.stallStartedAt = this.stallStartedAt !== null ? performance.now() : null
+		this.playRequestedAt = this.isPlaying && !this.trackStarted ? performance.now() : null
+		log.player('Playback stats reset')
+	}
+
+	/**
+	 * Sets which of the sources of a track to prefer.
+	 * Applies from the next track on, a preloaded next track is loaded again.
+	 * @param {QualityPreference} preference - The quality preference
+	 */
+	setQualityPreference = (preference: QualityPreference) => {
+		if (preference === this.qualityPreference) return
+		this.qualityPreference = preference
+		log.player(`Quality preference changed to: ${preference}`)
+
+		if (this.nextAudio) {
+			this.cancelNext()
+			this.updateNextTrackSchedule()
+		}
+	}
+
+	/**
+	 * Gets the quality preference.
+	 * @returns {QualityPreference} Which of the sources of a track is preferred
+	 */
+	getQualityPreference = (): QualityPreference => {
+		return this.qualityPreference
+	}
+
+	/**
+	 * Gets the source the current track plays, for tracks with several sources.
+	 * @returns {TrackSourceOption | null} A copy of the source, or null if the track has a single source
+	 */
+	getCurrentSource = (): TrackSourceOption | null => {
+		const source = this.currentAudio ? this.playingSources.get(this.currentAudio) : undefined
+		return source ? { ...source } : null
+	}
+
 	/**
 	 * Subscribes to queue changes.
 	 * @param {QueueChangeListener} listener - Callback function that will be called when queue changes
@@ -500,6 +1451,204 @@ class Player {
 		this.loopListeners.forEach((listener) => {
 			listener(newMode)
 		})
+		this.requestAutosave()
+	}
+
+	/**
+	 * Repeats a section of the current track, from A to B, until cleared or the track changes.
+	 * The repeat takes precedence over the loop mode, which applies again once it is cleared.
+	 * Requires the Web Audio engine, which jumps back at the exact sample. Media elements can only jump
+	 * with a timer, late by up to a few hundred milliseconds, so the media element engine refuses the repeat.
+	 * Check support with `canABRepeat`.
+	 * @param {number} start - Start of the section (A), in seconds
+	 * @param {number} end - End of the section (B), in seconds
+	 * @param {ABRepeatOptions} [options] - What seeking outside the section does
+	 * @returns {boolean} Success status - false with the media element engine, if there is no track or the section is invalid
+	 * @fires ABRepeatChangeListener
+	 */
+	setABRepeat = (start: number, end: number, options: ABRepeatOptions = {}): boolean => {
+		const audio = this.currentAudio
+		const duration = this.getTrackDuration()
+		if (!audio || Number.isNaN(duration) || duration <= 0) {
+			log.player('No loaded track to repeat')
+			return false
+		}
+		if (!(audio instanceof BufferedAudio)) {
+			log.player('A–B repeat requires the web_audio engine')
+			return false
+		}
+
+		const rangeStart = Math.max(0, start)
+		const rangeEnd = Math.min(end, duration)
+		if (!(rangeEnd - rangeStart >= MIN_AB_REPEAT_LENGTH)) {
+			log.player(`Invalid A–B repeat section: ${start} - ${end}`)
+			return false
+		}
+
+		this.abRepeat = { start: rangeStart, end: rangeEnd }
+		this.abRepeatSeekBehavior = options.onSeekOutside ?? 'clear'
+		log.player(`A–B repeat set: ${rangeStart} - ${rangeEnd}`)
+
+		// The track no longer reaches its end, the next track must not start
+		this.resetCrossfade()
+		if (this.nextAudio instanceof BufferedAudio) this.nextAudio.pause()
+
+		const position = this.getTrackPosition()
+		const sliceStart = this.getSlice(this.getCurrentTrack(), audio).start
+		if (position < rangeStart || position >= rangeEnd) {
+			audio.currentTime = sliceStart + rangeStart
+		}
+		audio.setLoopRange({ start: sliceStart + rangeStart, end: sliceStart + rangeEnd })
+
+		this.notifyABRepeatChange()
+		return true
+	}
+
+	/**
+	 * Stops repeating a section of the current track.
+	 * @fires ABRepeatChangeListener
+	 */
+	clearABRepeat = () => {
+		if (!this.abRepeat) return
+		this.abRepeat = null
+		log.player('A–B repeat cleared')
+
+		if (this.currentAudio instanceof BufferedAudio) {
+			this.currentAudio.setLoopRange(null)
+			this.scheduleGaplessStart()
+		}
+		this.scheduleSliceEnd()
+		this.notifyABRepeatChange()
+	}
+
+	/**
+	 * Starts a sleep timer, replacing the current one. Playback stops after a duration,
+	 * at the end of the current track, or after a number of tracks, optionally fading out first.
+	 * Only tracks which play until their end count, skipped tracks don't.
+	 * @param {SleepTimerOptions} options - When to stop and how long to fade out
+	 * @returns {boolean} Success status - false if the duration or the number of tracks is invalid
+	 * @fires SleepTimerChangeListener
+	 */
+	setSleepTimer = (options: SleepTimerOptions): boolean => {
+		let type: SleepTimer['type'] = 'tracks'
+		let endsAt = 0
+		let tracksRemaining = 1
+		if (options.type === 'duration') {
+			if (!(options.minutes > 0)) {
+				log.player('Invalid sleep timer duration:', options.minutes)
+				return false
+			}
+			type = 'duration'
+			endsAt = Date.now() + options.minutes * 60 * 1000
+		} else if (options.type === 'tracks') {
+			if (!(options.count >= 1)) {
+				log.player('Invalid sleep timer track count:', options.count)
+				return false
+			}
+			tracksRemaining = Math.floor(options.count)
+		}
+
+		this.cancelSleepFade()
+		this.sleepTimer = { type, endsAt, tracksRemaining, fadeOut: Math.max(0, options.fadeOut ?? 0), fading: false }
+		log.player('Sleep timer set:', options)
+
+		// Playback may stop at the end of the current track, the next track must not start on its own
+		if (this.isStoppingAtTrackEnd()) {
+			this.resetCrossfade()
+			if (this.nextAudio instanceof BufferedAudio) this.nextAudio.pause()
+		}
+
+		if (this.sleepTimerInterval !== null) window.clearInterval(this.sleepTimerInterval)
+		this.sleepTimerInterval = window.setInterval(() => {
+			this.checkSleepTimer()
+			this.notifySleepTimerChange()
+		}, 1000)
+
+		this.notifySleepTimerChange()
+		this.checkSleepTimer()
+		return true
+	}
+
+	/**
+	 * Cancels the sleep timer, bringing back the volume if it was fading out.
+	 * @fires SleepTimerChangeListener
+	 */
+	cancelSleepTimer = () => {
+		if (!this.sleepTimer) return
+		log.player('Sleep timer cancelled')
+		this.cancelSleepFade()
+		this.clearSleepTimer()
+		this.scheduleGaplessStart()
+	}
+
+	/**
+	 * Gets the state of the sleep timer.
+	 * @returns {SleepTimerState | null} The state of the sleep timer, or null if there is none
+	 */
+	getSleepTimer = (): SleepTimerState | null => {
+		if (!this.sleepTimer) return null
+		return {
+			type: this.sleepTimer.type,
+			timeRemaining: this.getSleepTimeRemaining(),
+			tracksRemaining: this.sleepTimer.type === 'tracks' ? this.sleepTimer.tracksRemaining : null,
+		}
+	}
+
+	/**
+	 * Gets the section of the current track being repeated.
+	 * @returns {ABRepeatRange | null} A copy of the section, or null when not repeating
+	 */
+	getABRepeat = (): ABRepeatRange | null => {
+		return this.abRepeat ? { ...this.abRepeat } : null
+	}
+
+	/**
+	 * Checks whether the player can repeat a section of a track, so the interface can hide A–B repeat otherwise.
+	 * Only the Web Audio engine can, the media element engine refuses `setABRepeat`.
+	 * @returns {boolean} True if the engine supports A–B repeat
+	 */
+	canABRepeat = (): boolean => {
+		return this.engine === 'web_audio'
+	}
+
+	/**
+	 * Seeks to the start of the next chapter of the current track.
+	 * @returns {boolean} Success status - false if there is no next chapter
+	 */
+	nextChapter = (): boolean => {
+		const chapters = this.getCurrentTrack()?.chapters
+		const next = chapters?.[this.getCurrentChapterIndex() + 1]
+		if (!next) {
+			log.player('No next chapter')
+			return false
+		}
+		return this.seekTo(next.startTime)
+	}
+
+	/**
+	 * Seeks to the start of the previous chapter of the current track.
+	 * Restarts the current chapter instead when it has played for more than 5 seconds.
+	 * @returns {boolean} Success status - false if there is no chapter to go to
+	 */
+	previousChapter = (): boolean => {
+		const chapters = this.getCurrentTrack()?.chapters
+		const index = this.getCurrentChapterIndex()
+		const chapter = chapters?.[index]
+		if (!chapters || !chapter) {
+			log.player('No previous chapter')
+			return false
+		}
+
+		const restart = this.getTrackPosition() - chapter.startTime > CHAPTER_RESTART_THRESHOLD || index === 0
+		return this.seekTo(restart ? chapter.startTime : chapters[index - 1].startTime)
+	}
+
+	/**
+	 * Gets the chapter of the current track at the playback position.
+	 * @returns {TrackChapter | null} The chapter, or null without chapters or before the first one
+	 */
+	getCurrentChapter = (): TrackChapter | null => {
+		return this.getCurrentTrack()?.chapters?.[this.getCurrentChapterIndex()] ?? null
 	}
 
 	/**
@@ -507,24 +1656,261 @@ class Player {
 	 * @param {QueueItem} track - The new track item appended
 	 */
 	appendTrack = (track: QueueItem) => {
-		this.queue.push(track)
+		const prepared = this.prepareTrack(track)
+		this.queue.push(prepared)
 		this.order.push(this.order.length) // even in shuffle mode, append to the end of the queue
 
-		this.notifyQueueChange()
+		this.notifyQueueChange([{ type: 'inserted', position: this.order.length - 1, item: this.cloneTrack(prepared) }])
+	}
+
+	/**
+	 * Inserts a track at a specific position of the play queue.
+	 * The position refers to the actual play order, as returned by `fetchQueue`.
+	 * @param {QueueItem} track - The track item to insert
+	 * @param {number} position - The position in the play order to insert at (0 to queue length)
+	 * @returns {boolean} Success status - true if the track was inserted, false otherwise
+	 * @fires QueueChangeListener
+	 */
+	insertTrack = (track: QueueItem, position: number): boolean => {
+		if (!Number.isInteger(position) || position < 0 || position > this.order.length) {
+			log.player('Invalid insert position:', position)
+			return false
+		}
+
+		const prepared = this.prepareTrack(track)
+		this.insertIntoQueue(prepared, position)
+
+		// Keep the pointer on the same track, unless nothing is loaded yet and the track becomes the first one
+		if (position < this.currentPlayingPointer || (position === this.currentPlayingPointer && this.currentAudio)) {
+			this.currentPlayingPointer++
+		}
+
+		log.player(`Track inserted at position ${position}`)
+		this.revalidateNextTrack()
+		this.notifyQueueChange([{ type: 'inserted', position, item: this.cloneTrack(prepared) }])
+		return true
+	}
+
+	/**
+	 * Inserts a track right after the currently playing track.
+	 * @param {QueueItem} track - The track item to play next
+	 * @fires QueueChangeListener
+	 */
+	playNext = (track: QueueItem) => {
+		const position = this.order.length === 0 ? 0 : this.currentPlayingPointer + 1
+		this.insertTrack(track, Math.min(position, this.order.length))
+	}
+
+	/**
+	 * Appends a track to the user queue ("Up Next").
+	 * Tracks of the user queue play before the rest of the playback context,
+	 * and are kept when the context is replaced or shuffled.
+	 * @param {QueueItem} track - The track item to add
+	 * @fires QueueChangeListener
+	 */
+	addToUpNext = (track: QueueItem) => {
+		this.upNext.push(this.prepareTrack(track))
+		log.player('Track added to Up Next')
+		this.revalidateNextTrack()
+		this.notifyQueueChange([{ type: 'up_next_changed', items: this.fetchUpNext() }])
+	}
+
+	/**
+	 * Removes a track from the user queue ("Up Next").
+	 * @param {number} position - The position of the track in the user queue
+	 * @returns {boolean} Success status - true if the track was removed, false otherwise
+	 * @fires QueueChangeListener
+	 */
+	removeFromUpNext = (position: number): boolean => {
+		if (!Number.isInteger(position) || position < 0 || position >= this.upNext.length) {
+			log.player('Invalid Up Next position:', position)
+			return false
+		}
+
+		this.upNext.splice(position, 1)
+		log.player(`Track removed from Up Next at position ${position}`)
+		this.revalidateNextTrack()
+		this.notifyQueueChange([{ type: 'up_next_changed', items: this.fetchUpNext() }])
+		return true
+	}
+
+	/**
+	 * Removes all tracks from the user queue ("Up Next").
+	 * @fires QueueChangeListener
+	 */
+	clearUpNext = () => {
+		if (this.upNext.length === 0) return
+		this.upNext = []
+		log.player('Up Next cleared')
+		this.revalidateNextTrack()
+		this.notifyQueueChange([{ type: 'up_next_changed', items: [] }])
+	}
+
+	/**
+	 * Removes the track at a specific position of the play queue.
+	 * If the removed track is currently playing, the player moves on to the following track
+	 * (taken from the user queue first), keeping the current play state.
+	 * @param {number} position - The position in the play order to remove
+	 * @returns {Promise<boolean>} Success status - true if the track was removed, false otherwise
+	 * @fires QueueChangeListener
+	 */
+	removeTrack = async (position: number): Promise<boolean> => {
+		if (!Number.isInteger(position) || position < 0 || position >= this.order.length) {
+			log.player('Invalid remove position:', position)
+			return false
+		}
+
+		const queueIndex = this.order[position]
+		const [removed] = this.queue.splice(queueIndex, 1)
+		this.order.splice(position, 1)
+		this.order = this.order.map((index) => (index > queueIndex ? index - 1 : index))
+		log.player(`Track removed at position ${position}`)
+
+		const operations: QueueDiffOperation[] = [{ type: 'removed', position, id: removed.id! }]
+		// While a track of the user queue plays, the pointer is on the last context track played
+		const removedCurrent = position === this.currentPlayingPointer && !this.currentUpNext
+		let hasFollowing = true
+		if (position < this.currentPlayingPointer || (position === this.currentPlayingPointer && this.currentUpNext)) {
+			this.currentPlayingPointer--
+		} else if (removedCurrent && this.upNext.length > 0) {
+			// The user queue takes over, the context continues with the track after the removed one
+			this.currentUpNext = this.upNext.shift()!
+			this.currentPlayingPointer--
+			operations.push({ type: 'up_next_changed', items: this.fetchUpNext() })
+		} else if (removedCurrent && this.currentPlayingPointer >= this.order.length) {
+			// The removed track was the last one, loop back or stay on the new last track
+			if (this.loop === 'entire_queue' && this.order.length > 0) {
+				this.currentPlayingPointer = 0
+			} else {
+				this.currentPlayingPointer = Math.max(0, this.order.length - 1)
+				hasFollowing = false
+			}
+		}
+
+		if (!removedCurrent) this.revalidateNextTrack()
+		this.notifyQueueChange(operations)
+
+		if (removedCurrent) await this.replaceRemovedCurrentTrack(hasFollowing)
+		return true
+	}
+
+	/**
+	 * Moves a track from one position of the play queue to another.
+	 * The currently playing track keeps playing.
+	 * @param {number} from - The current position of the track in the play order
+	 * @param {number} to - The target position of the track in the play order
+	 * @returns {boolean} Success status - true if the track was moved, false otherwise
+	 * @fires QueueChangeListener
+	 */
+	moveTrack = (from: number, to: number): boolean => {
+		const length = this.order.length
+		if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to < 0 || from >= length || to >= length) {
+			log.player('Invalid move positions:', from, to)
+			return false
+		}
+		if (from === to) return true
+
+		if (this.shuffle) {
+			// Only the play order changes, the original order stays intact
+			const [moved] = this.order.splice(from, 1)
+			this.order.splice(to, 0, moved)
+		} else {
+			// Without shuffle the play order mirrors the queue, so move the item itself
+			const [moved] = this.queue.splice(from, 1)
+			this.queue.splice(to, 0, moved)
+		}
+
+		// Follow the currently playing track
+		if (from === this.currentPlayingPointer) {
+			this.currentPlayingPointer = to
+		} else if (from < this.currentPlayingPointer && to >= this.currentPlayingPointer) {
+			this.currentPlayingPointer--
+		} else if (from > this.currentPlayingPointer && to <= this.currentPlayingPointer) {
+			this.currentPlayingPointer++
+		}
+
+		log.player(`Track moved from position ${from} to ${to}`)
+		this.revalidateNextTrack()
+		this.notifyQueueChange([{ type: 'moved', from, to, id: this.getActualTrack(to)!.id! }])
+		return true
+	}
+
+	/**
+	 * Registers a provider of more tracks for endless playback (e.g. radio or autoplay).
+	 * When loop is off and only a few tracks are left after the current one, the provider is called
+	 * and the tracks it returns are appended to the queue, marked with `autoAdded`.
+	 * Only one provider can be registered, a new one replaces the previous one.
+	 * @param {QueueExhaustingProvider} provider - Async function returning the tracks to append
+	 * @param {QueueExhaustingOptions} [options] - Provider options
+	 * @returns {{destroy: () => void}} An object with a destroy method to unregister the provider
+	 */
+	onQueueExhausting = (
+		provider: QueueExhaustingProvider,
+		options: QueueExhaustingOptions = {},
+	): { destroy: () => void } => {
+		this.exhaustionProvider = provider
+		this.exhaustionThreshold = Math.max(0, options.threshold ?? 2)
+		this.exhaustionRequestedFor = null
+		this.checkQueueExhaustion()
+
+		return {
+			destroy: () => {
+				if (this.exhaustionProvider === provider) this.exhaustionProvider = null
+			},
+		}
+	}
+
+	/**
+	 * Subscribes to granular queue changes.
+	 * Unlike `onQueueChange`, the listener only receives the operations applied to the queue.
+	 * @param {QueueDiffListener} listener - Callback function that will be called with the queue operations
+	 * @returns {{destroy: () => void}} An object with a destroy method to unsubscribe the listener
+	 */
+	onQueueDiff = (listener: QueueDiffListener): { destroy: () => void } => {
+		this.queueDiffListeners.add(listener)
+		return {
+			destroy: () => {
+				this.queueDiffListeners.delete(listener)
+			},
+		}
 	}
 
 	/**
 	 * Notifies all queue listeners about queue changes.
-	 * Sends a deep copy of the queue in the actual play order.
+	 * Sends a deep copy of the queue in the actual play order, and the granular operations to diff listeners.
+	 * A `current_changed` operation is added when the current track moved since the last notification.
 	 * @private
+	 * @param {QueueDiffOperation[]} [operations] - Operations applied to the queue since the last notification
 	 */
-	private notifyQueueChange = () => {
+	private notifyQueueChange = (operations: QueueDiffOperation[] = []) => {
 		// Get the queue in the current play order
 		const orderedQueue = this.fetchQueue()
 
+		const sections: QueueSections = { upNext: this.fetchUpNext(), context: this.getPlaybackContext() }
+
 		this.queueChangeListeners.forEach((listener) => {
-			listener(orderedQueue)
+			listener(orderedQueue, sections)
 		})
+		this.requestAutosave()
+
+		const currentId = this.getCurrentTrack()?.id ?? null
+		if (this.currentPlayingPointer !== this.lastNotifiedPointer || currentId !== this.lastNotifiedCurrentId) {
+			operations.push({ type: 'current_changed', position: this.currentPlayingPointer, id: currentId })
+			this.lastNotifiedPointer = this.currentPlayingPointer
+			this.lastNotifiedCurrentId = currentId
+		}
+
+		if (operations.length > 0) {
+			this.queueDiffListeners.forEach((listener) => {
+				listener(operations)
+			})
+		}
+
+		this.checkQueueExhaustion()
+		this.releaseObjectUrls()
+
+		// Whether the current slice ends or continues depends on the following track
+		this.scheduleSliceEnd()
 	}
 
 	/**
@@ -535,6 +1921,12 @@ class Player {
 	 * @throws {DOMException} When autoplay is blocked or audio format is unsupported
 	 */
 	private async startPlay() {
+		// Start from the user queue when the playback context is empty, no context track has played yet
+		if (this.queue.length === 0 && !this.currentUpNext && this.upNext.length > 0) {
+			this.currentPlayingPointer = -1
+			this.moveToNextTrack()
+		}
+
 		// fetch the current item from the queue based on order
 		const currentTrack = this.getCurrentTrack()
 		log.player(currentTrack)
@@ -545,55 +1937,34 @@ class Player {
 			log.player('AudioContext resumed')
 		}
 
+		// Fade in, also bringing back a fade out interrupted by resuming
+		rampGain(this.context, this.pauseFader.gain, 1, this.pauseFadeDuration)
+
 		// If current audio exists and is paused, resume it
 		if (this.currentAudio?.paused) {
-			await this.currentAudio.play()
+			await this.playAudio(this.currentAudio)
 			log.player('Resumed playback')
 
 			// Also check if we need to schedule next track
-			if (!this.nextAudio && this.currentAudio) {
-				const timeRemaining = this.currentAudio.duration - this.currentAudio.currentTime
-				const halfwayPoint = this.currentAudio.duration / 2
-
-				// Schedule next if conditions are met
-				if (timeRemaining < 20 || this.currentAudio.currentTime > halfwayPoint) {
-					this.scheduleNext()
-				}
+			if (!this.nextAudio && this.currentAudio && this.shouldPreloadNext(this.currentAudio)) {
+				this.scheduleNext()
 			}
 			return
 		}
 
 		// Create new audio if it doesn't exist
 		if (!this.currentAudio && currentTrack) {
-			this.currentAudio = new Audio(currentTrack.url)
-			this.currentAudio.crossOrigin = 'true'
-			this.currentSource = this.context.createMediaElementSource(this.currentAudio)
-			this.currentSource.connect(this.context.destination)
-
-			// Add event listener for when the current track ends
-			this.currentAudio.addEventListener('ended', () => {
-				log.player('Current track ended')
-				this.handleTrackEnd()
-			})
-
-			// Add event listener for timeupdate to schedule next track at the right time
-			this.currentAudio.addEventListener('timeupdate', () => {
-				// Schedule next track when current track is 20 seconds from ending (or 50% complete for short tracks)
-				if (this.currentAudio && !this.nextAudio) {
-					const timeRemaining = this.currentAudio.duration - this.currentAudio.currentTime
-					const halfwayPoint = this.currentAudio.duration / 2
+			const { audio, source } = this.createAudio(currentTrack)
+			this.currentAudio = audio
+			this.currentSource = source
 
-					// Preload when: 20 seconds remaining OR halfway through (whichever comes first)
-					if (timeRemaining < 20 || this.currentAudio.currentTime > halfwayPoint) {
-						this.scheduleNext()
-					}
-				}
-			})
+			// Add event listeners for track end and next track scheduling
+			this.bindTrackEvents(this.currentAudio)
 		}
 
 		// Handle play() promise with proper error catching
 		try {
-			await this.currentAudio?.play()
+			if (this.currentAudio) await this.playAudio(this.currentAudio)
 			log.player('Audio playback started successfully')
 		} catch (error) {
 			log.player('Audio playback failed:', error)
@@ -603,11 +1974,11 @@ class Player {
 				if (error.name === 'NotAllowedError') {
 					// Browser autoplay policy blocked the playback
 					log.player('Autoplay blocked by browser policy. User interaction required.')
-					// Reset playing state since we couldn't actually play
-					this.isPlaying = false
-					this.playStateListeners.forEach((listener) => {
-						listener(false)
-					})
+					// Leave the loading state since we couldn't actually play
+					this.stopPlayback('error')
+					if (this.currentAudio && currentTrack) {
+						this.handlePlaybackError(this.currentAudio, currentTrack, 'autoplay_blocked', error.message, error)
+					}
 				} else if (error.name === 'NotSupportedError') {
 					log.player('Audio format not supported')
 				}
@@ -617,14 +1988,85 @@ class Player {
 	}
 
 	/**
-	 * Pauses the current playback.
-	 * Also pauses any preloaded next track.
+	 * Stops playback, leaving the active states.
 	 * @private
-	 * @returns {Promise<void>}
+	 * @param {'paused' | 'ended' | 'error'} state - The state to stop in
+	 * @fires StateChangeListener
+	 * @fires PlayStateChangeListener
 	 */
-	private async pausePlay() {
-		this.currentAudio?.pause()
-		// Also pause the next audio if it's preloaded
+	private stopPlayback(state: 'paused' | 'ended' | 'error') {
+		// The audio stops even when the state can't change
+		this.pausePlay()
+		if (!this.setState(state)) return
+		this.playRequestedAt = null
+		this.setBuffering(false)
+		this.stopProgressUpdates()
+		this.stopAnalyserUpdates()
+		this.reportMetadata()
+		this.requestAutosave()
+	}
+
+	/**
+	 * Changes the playback state, if the transition is valid.
+	 * Play state listeners are notified when audio starts or stops playing.
+	 * @private
+	 * @param {PlaybackState} state - The new state
+	 * @returns {boolean} True if the state is the new state, false if the transition is invalid
+	 * @fires StateChangeListener
+	 * @fires PlayStateChangeListener
+	 */
+	private setState(state: PlaybackState): boolean {
+		const previousState = this.state
+		if (previousState === state) return true
+		if (!STATE_TRANSITIONS[previousState].includes(state)) {
+			log.player(`Invalid state transition: ${previousState} -> ${state}`)
+			return false
+		}
+
+		this.state = state
+		log.player(`State changed: ${previousState} -> ${state}`)
+		this.stateListeners.forEach((listener) => {
+			listener(state, previousState)
+		})
+
+		const playing = PLAYING_STATES.includes(state)
+		if (playing !== PLAYING_STATES.includes(previousState)) {
+			this.playStateListeners.forEach((listener) => {
+				listener(playing)
+			})
+			navigator.mediaSession.playbackState = playing ? 'playing' : 'paused'
+		}
+		return true
+	}
+
+	/**
+	 * Whether playback is requested, in the `loading`, `buffering` or `playing` state.
+	 * @private
+	 */
+	private get isPlaying(): boolean {
+		return ACTIVE_STATES.includes(this.state)
+	}
+
+	/**
+	 * Pauses the current playback, after fading out if configured.
+	 * Also pauses any preloaded next track.
+	 * @private
+	 * @returns {Promise<void>}
+	 */
+	private async pausePlay() {
+		// A crossfade in progress starts over on resume
+		this.resetCrossfade()
+
+		if (this.pauseFadeDuration > 0 && this.currentAudio && !this.currentAudio.paused) {
+			rampGain(this.context, this.pauseFader.gain, 0, this.pauseFadeDuration)
+			await new Promise((resolve) => window.setTimeout(resolve, this.pauseFadeDuration * 1000))
+
+			// Resumed during the fade out
+			if (this.isPlaying) return
+		}
+
+		this.currentAudio?.pause()
+		// Also pause the next audio if it's preloaded
 		if (this.nextAudio) {
 			this.nextAudio.pause()
 		}
@@ -637,6 +2079,7 @@ class Player {
 	 */
 	private reportMetadata() {
 		const currentTrack = this.getCurrentTrack()
+		if (currentTrack) this.fillMetadata(currentTrack)
 		if (currentTrack?.metadata) {
 			navigator.mediaSession.metadata = new MediaMetadata(currentTrack.metadata)
 		}
@@ -657,6 +2100,7 @@ class Player {
 				listener(currentTrack)
 			}
 		}
+		this.checkChapterChange()
 	}
 
 	/**
@@ -666,38 +2110,49 @@ class Player {
 	 * @private
 	 * @returns {Promise<void>}
 	 */
-	private async playNext() {
+	private async advanceToNext() {
+		this.clearABRepeat()
+
+		// The next slice of the same file simply keeps playing
+		if (this.continuesInSameFile()) {
+			this.continueIntoNextSlice()
+			return
+		}
+
 		// Check if there's a next track ready
 		if (!this.nextAudio) {
-			// If no next track is preloaded, check if there's one in the queue or we should loop
-			if (this.currentPlayingPointer + 1 < this.queue.length) {
-				// Create next audio on the fly if not preloaded
-				this.currentPlayingPointer++
-				await this.startPlay()
-			} else if (this.loop === 'entire_queue' && this.queue.length > 0) {
-				// Loop back to first track
-				this.currentPlayingPointer = 0
+			// If no next track is preloaded, take the next one from the user queue or the context, or loop back
+			if (this.moveToNextTrack()) {
+				// Create next audio on the fly if not preloaded, replacing the audio of the previous track
+				this.recordTransition(false)
+				await this.loadCurrentTrack()
 				await this.startPlay()
 			} else {
 				// No more tracks and not looping, stop playback
 				log.player('No more tracks in queue')
-				this.togglePlaying(false)
+				this.stopPlayback('ended')
 			}
 			return
 		}
 
-		// Pre-play the next track to ensure it's ready
-		// Set volume to 0 first to avoid any sound leak
-		this.nextAudio.volume = 0
+		// The gapless engine may have started the next track already, at the exact end of the current one
+		const alreadyStarted = this.nextStarted && !this.nextAudio.paused
+		const nextStart = this.getSlice(this.nextItem, this.nextAudio).start
 
-		// Start playing the next track silently to ensure it's buffered and ready
-		try {
-			await this.nextAudio.play()
-			this.nextAudio.pause()
-			this.nextAudio.currentTime = 0
-			this.nextAudio.volume = 1
-		} catch (error) {
-			log.player('Failed to pre-buffer next track:', error)
+		if (!alreadyStarted) {
+			// Pre-play the next track to ensure it's ready
+			// Set volume to 0 first to avoid any sound leak
+			this.nextAudio.volume = 0
+
+			// Start playing the next track silently to ensure it's buffered and ready
+			try {
+				await this.playAudio(this.nextAudio)
+				this.nextAudio.pause()
+				this.nextAudio.currentTime = nextStart
+				this.nextAudio.volume = 1
+			} catch (error) {
+				log.player('Failed to pre-buffer next track:', error)
+			}
 		}
 
 		// Clean up current audio listeners before switching
@@ -709,49 +2164,36 @@ class Player {
 
 			// Stop the current audio immediately
 			oldAudio.pause()
+			this.currentSource?.disconnect()
 		}
 
+		this.recordTransition(this.preloadFinished)
+
 		// Switch to next track immediately
 		this.currentAudio = this.nextAudio
 		this.currentSource = this.nextSource
+		this.crossfading = false
+		this.nextStarted = false
 
-		// Update pointer based on loop mode
-		if (this.currentPlayingPointer + 1 >= this.queue.length && this.loop === 'entire_queue') {
-			// Loop back to first track
-			this.currentPlayingPointer = 0
-		} else {
-			this.currentPlayingPointer++
-		}
+		// Move to the preloaded track, following the user queue and the loop mode like the preload did
+		this.moveToNextTrack()
 
 		// Clear next track references
 		this.nextAudio = null
 		this.nextSource = null
+		this.nextItem = null
 
 		// Add event listeners to the new current track
-		this.currentAudio.addEventListener('ended', () => {
-			log.player('Current track ended')
-			this.handleTrackEnd()
-		})
-
-		this.currentAudio.addEventListener('timeupdate', () => {
-			// Schedule next track when current track is 20 seconds from ending (or 50% complete for short tracks)
-			if (this.currentAudio && !this.nextAudio) {
-				const timeRemaining = this.currentAudio.duration - this.currentAudio.currentTime
-				const halfwayPoint = this.currentAudio.duration / 2
-
-				// Preload when: 20 seconds remaining OR halfway through (whichever comes first)
-				if (timeRemaining < 20 || this.currentAudio.currentTime > halfwayPoint) {
-					this.scheduleNext()
-				}
-			}
-		})
+		this.bindTrackEvents(this.currentAudio)
 
 		// Start playing the new current track immediately
 		try {
-			// Reset to beginning and play
-			this.currentAudio.currentTime = 0
-			this.currentAudio.volume = 1
-			await this.currentAudio.play()
+			// Reset to beginning and play, unless it is already playing
+			if (!alreadyStarted) {
+				this.currentAudio.currentTime = nextStart
+				this.currentAudio.volume = 1
+				await this.playAudio(this.currentAudio)
+			}
 			const nextTrack = this.getCurrentTrack()
 			log.player(`Playing next track: ${nextTrack?.metadata?.title || 'Unknown'}`)
 
@@ -763,8 +2205,9 @@ class Player {
 		} catch (error) {
 			log.player('Failed to play next track:', error)
 			// Try to play the next track if available
-			if (this.currentPlayingPointer + 1 < this.queue.length) {
-				this.currentPlayingPointer++
+			if (this.hasFollowingTrack()) {
+				this.moveToNextTrack()
+				this.notifyQueueChange()
 				await this.startPlay()
 			}
 		}
@@ -788,44 +2231,32 @@ class Player {
 			return
 		}
 
-		// Determine the next track based on loop mode
-		let nextPointer = this.currentPlayingPointer + 1
-		let actualNextIndex: number
-		let nextTrack: QueueItem | undefined
-
-		if (nextPointer >= this.queue.length) {
-			// At the end of queue
-			if (this.loop === 'entire_queue' && this.queue.length > 0) {
-				// Loop back to first track
-				nextPointer = 0
-				actualNextIndex = this.getActualQueueIndex(nextPointer)
-				nextTrack = this.queue[actualNextIndex]
-			} else {
-				// No loop, no next track
-				log.player('No next track to schedule (end of queue)')
-				return
-			}
-		} else {
-			// Normal next track
-			actualNextIndex = this.getActualQueueIndex(nextPointer)
-			nextTrack = this.queue[actualNextIndex]
-		}
-
+		// Determine the next track based on the user queue and loop mode
+		const nextTrack = this.getNextItem()
 		if (!nextTrack) {
-			log.player('Next track not found')
+			// No loop, no next track
+			log.player('No next track to schedule (end of queue)')
 			return
 		}
 
+		// The next slice of the same file continues in the current audio
+		if (this.continuesInSameFile()) return
+
+		// A failed preload is loaded again once the track becomes current
+		if (nextTrack === this.failedPreload) return
+
+		// Read the tags of the next track while it loads, so its metadata is complete once it plays
+		this.fillMetadata(nextTrack)
+
 		log.player(`Scheduling next track: ${nextTrack?.metadata?.title || 'Unknown'}`)
 
-		// Create and preload the next audio element
-		this.nextAudio = new Audio(nextTrack.url)
-		this.nextAudio.crossOrigin = 'true'
+		// Create and preload the next audio, with its audio source node
+		const { audio, source } = this.createAudio(nextTrack)
+		this.nextAudio = audio
 		this.nextAudio.preload = 'auto' // Preload the entire audio
-
-		// Create the audio source node for the next track
-		this.nextSource = this.context.createMediaElementSource(this.nextAudio)
-		this.nextSource.connect(this.context.destination)
+		this.nextSource = source
+		this.nextItem = nextTrack
+		this.preloadFinished = false
 
 		// Start loading the next track
 		this.nextAudio.load()
@@ -834,13 +2265,19 @@ class Player {
 		this.nextAudio.addEventListener(
 			'canplaythrough',
 			async () => {
+				// The buffered engine is fully decoded at this point, schedule its start instead
+				if (this.nextAudio instanceof BufferedAudio) {
+					this.scheduleGaplessStart()
+					return
+				}
+
 				if (this.nextAudio?.paused) {
 					try {
 						// Play silently to ensure the track is fully buffered
 						this.nextAudio.volume = 0
 						await this.nextAudio.play()
 						this.nextAudio.pause()
-						this.nextAudio.currentTime = 0
+						this.nextAudio.currentTime = this.getSlice(this.nextItem, this.nextAudio).start
 						this.nextAudio.volume = 1
 						log.player('Next track pre-buffered successfully')
 					} catch (error) {
@@ -854,6 +2291,46 @@ class Player {
 		log.player('Next track scheduled and preloading')
 	}
 
+	/**
+	 * Starts sending analyser frames to analyser listeners, on every animation frame.
+	 * @private
+	 */
+	private startAnalyserUpdates() {
+		if (this.analyserFrame !== null) {
+			this.stopAnalyserUpdates()
+		}
+
+		const update = () => {
+			if (this.analyserSubscriptions.size === 0) {
+				// Stop if no listeners
+				this.stopAnalyserUpdates()
+				return
+			}
+
+			for (const subscription of this.analyserSubscriptions) {
+				if (subscription.type === 'frequency') {
+					subscription.analyser.getByteFrequencyData(subscription.data)
+				} else {
+					subscription.analyser.getByteTimeDomainData(subscription.data)
+				}
+				subscription.listener(subscription.data)
+			}
+			this.analyserFrame = window.requestAnimationFrame(update)
+		}
+		this.analyserFrame = window.requestAnimationFrame(update)
+	}
+
+	/**
+	 * Stops sending analyser frames.
+	 * @private
+	 */
+	private stopAnalyserUpdates() {
+		if (this.analyserFrame !== null) {
+			window.cancelAnimationFrame(this.analyserFrame)
+			this.analyserFrame = null
+		}
+	}
+
 	/**
 	 * Starts periodic progress updates for progress listeners.
 	 * Updates are sent approximately every 100ms while audio is playing.
@@ -866,22 +2343,7 @@ class Player {
 
 		this.progressTimer = window.setInterval(() => {
 			if (this.currentAudio && this.progressListeners.size > 0) {
-				const currentTime = this.currentAudio.currentTime
-				const duration = this.currentAudio.duration
-
-				if (!Number.isNaN(duration) && duration > 0) {
-					const percentage = (currentTime / duration) * 100
-
-					const progress: PlaybackProgress = {
-						currentTime,
-						duration,
-						percentage,
-					}
-
-					this.progressListeners.forEach((listener) => {
-						listener(progress)
-					})
-				}
+				this.notifyProgress()
 			} else {
 				// Stop timer if no audio or no listeners
 				this.stopProgressUpdates()
@@ -901,20 +2363,42 @@ class Player {
 	}
 
 	/**
-	 * Switches to a specific track without auto-playing.
-	 * Prepares the audio element and resets progress to 0.
+	 * Switches to a specific track of the playback context without auto-playing.
+	 * A playing track of the user queue is left behind.
 	 * @private
 	 * @param {number} trackIndex - The index of the track to switch to
+	 * @param {number} [startTime] - Position to start the track from, in seconds
+	 * @param {boolean} [crossfade] - Whether to fade the previous track out and the new one in
 	 */
-	private async switchToTrack(trackIndex: number) {
+	private async switchToTrack(trackIndex: number, startTime = 0, crossfade = false) {
 		if (trackIndex < 0 || trackIndex >= this.queue.length) {
 			log.player('Invalid track index:', trackIndex)
 			return
 		}
 
+		this.currentUpNext = null
+		this.currentPlayingPointer = trackIndex
+		await this.loadCurrentTrack(startTime, crossfade)
+	}
+
+	/**
+	 * Loads the current track without auto-playing, replacing the audio of the previous one.
+	 * Prepares the audio element and resets progress to 0, or to the given start position.
+	 * @private
+	 * @param {number} [startTime] - Position to start the track from, in seconds
+	 * @param {boolean} [crossfade] - Whether to fade the previous track out and the new one in
+	 */
+	private async loadCurrentTrack(startTime = 0, crossfade = false) {
+		this.clearABRepeat()
+
 		// Clean up current audio
 		if (this.currentAudio) {
-			this.currentAudio.pause()
+			if (crossfade) {
+				this.fadeOutAndRelease(this.currentAudio, this.currentSource)
+			} else {
+				this.currentAudio.pause()
+				this.currentSource?.disconnect()
+			}
 			this.currentAudio.removeEventListener('ended', () => {})
 			this.currentAudio.removeEventListener('timeupdate', () => {})
 			this.currentAudio = null
@@ -922,203 +2406,1505 @@ class Player {
 		}
 
 		// Clean up next audio if exists
-		if (this.nextAudio) {
-			this.nextAudio = null
-			this.nextSource = null
-		}
-
-		// Update pointer
-		this.currentPlayingPointer = trackIndex
+		this.cancelNext()
 
 		// Get the actual track from the queue
 		const track = this.getCurrentTrack()
 		if (!track) {
-			log.player('Track not found at index:', trackIndex)
+			log.player('Track not found at index:', this.currentPlayingPointer)
 			return
 		}
 
-		// Create new audio element but don't play
-		this.currentAudio = new Audio(track.url)
-		this.currentAudio.crossOrigin = 'true'
-		this.currentSource = this.context.createMediaElementSource(this.currentAudio)
-		this.currentSource.connect(this.context.destination)
+		// Create new audio but don't play
+		const { audio, source } = this.createAudio(track)
+		this.currentAudio = audio
+		this.currentSource = source
+		if (crossfade) {
+			applyFade(
+				this.context,
+				source.gain,
+				this.crossfade.curve,
+				'in',
+				this.context.currentTime,
+				this.crossfade.duration,
+			)
+		}
 
 		// Set up event listeners
-		this.currentAudio.addEventListener('ended', () => {
+		this.bindTrackEvents(this.currentAudio)
+
+		// Reset progress to the start position
+		this.currentAudio.currentTime = this.getSlice(track, this.currentAudio).start + startTime
+
+		// Trigger progress change notification for the reset
+		this.notifyProgress(startTime)
+
+		// Update metadata without starting playback
+		this.reportMetadata()
+		this.notifyQueueChange()
+
+		log.player(`Switched to track: ${track?.metadata?.title || 'Unknown'}`)
+	}
+
+	/**
+	 * Binds the playback event listeners of a current track audio element.
+	 * Listeners are ignored once the element is no longer the current audio.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the current track
+	 */
+	private bindTrackEvents(audio: PlayerAudio) {
+		// Retries count per track
+		this.cancelRetry()
+		this.retryCount = 0
+
+		// The track whose preload failed was loaded again as the current track, or is no longer next
+		this.failedPreload = null
+
+		// Waiting for the new track to load isn't a stall until it has played, a gapless start already did
+		this.trackStarted = !audio.paused
+		if (this.isPlaying && !this.trackStarted) this.setState('loading')
+		this.setBuffering(false)
+
+		audio.addEventListener('ended', () => {
+			if (audio !== this.currentAudio) return
 			log.player('Current track ended')
 			this.handleTrackEnd()
 		})
 
-		this.currentAudio.addEventListener('timeupdate', () => {
-			if (this.currentAudio && !this.nextAudio) {
-				const timeRemaining = this.currentAudio.duration - this.currentAudio.currentTime
-				const halfwayPoint = this.currentAudio.duration / 2
+		audio.addEventListener('timeupdate', () => {
+			if (audio !== this.currentAudio) return
+			this.requestAutosave()
+			this.checkQueueExhaustion()
+			this.checkSleepTimer()
+			this.checkChapterChange()
 
-				if (timeRemaining < 20 || this.currentAudio.currentTime > halfwayPoint) {
-					this.scheduleNext()
-				}
+			// Schedule next track when current track is 20 seconds from ending (or 50% complete for short tracks)
+			if (!this.nextAudio && this.shouldPreloadNext(audio)) {
+				this.scheduleNext()
 			}
+
+			this.startCrossfadeIfDue(audio)
 		})
 
-		// Reset progress to 0
-		this.currentAudio.currentTime = 0
+		// The end time moves when the track is resumed, seeked or sped up, follow it with the next track
+		audio.addEventListener('playing', () => {
+			if (audio !== this.currentAudio) return
+			this.consecutiveFailures = 0
+			this.retryCount = 0
+			this.trackStarted = true
+			this.setBuffering(false)
+			if (this.isPlaying) this.setState('playing')
+			if (this.playRequestedAt !== null) {
+				this.stats.startupLatency = (performance.now() - this.playRequestedAt) / 1000
+				this.playRequestedAt = null
+				log.player(`Startup latency: ${this.stats.startupLatency}s`)
+			}
+			this.scheduleGaplessStart()
+			this.scheduleSliceEnd()
+			this.reportPositionState()
+		})
+		audio.addEventListener('seeked', () => {
+			if (audio !== this.currentAudio) return
+			this.resetCrossfade()
+			this.scheduleGaplessStart()
+			this.scheduleSliceEnd()
+			this.checkChapterChange()
+			this.reportPositionState()
+		})
+		audio.addEventListener('ratechange', () => {
+			if (audio !== this.currentAudio) return
+			this.scheduleGaplessStart()
+			this.scheduleSliceEnd()
+			this.reportPositionState()
+		})
+		audio.addEventListener('pause', () => {
+			if (audio === this.currentAudio) this.cancelSliceEnd()
+		})
+		audio.addEventListener('durationchange', () => {
+			if (audio === this.currentAudio) this.reportPositionState()
+		})
+	}
 
-		// Trigger progress change notification for the reset
-		if (this.progressListeners.size > 0) {
-			const progress: PlaybackProgress = {
-				currentTime: 0,
-				duration: this.currentAudio.duration || 0,
-				percentage: 0,
+	/**
+	 * Binds the loading event listeners of a track audio, tracking buffering of the current track
+	 * and preloading of the next one.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 */
+	private bindBufferingEvents(audio: PlayerAudio) {
+		const onLoading = () => {
+			if (audio === this.nextAudio && !this.preloadFinished && this.isFullyBuffered(audio)) {
+				log.player('Next track preloaded')
+				this.preloadFinished = true
 			}
 
-			this.progressListeners.forEach((listener) => {
-				listener(progress)
-			})
+			// Playback resumes once the media element can play again
+			if (audio === this.currentAudio && !audio.paused) this.setBuffering(false)
 		}
+		audio.addEventListener('canplay', onLoading)
+		audio.addEventListener('canplaythrough', onLoading)
+		audio.addEventListener('progress', () => {
+			onLoading()
+			if (audio !== this.currentAudio) return
+
+			// Progress is only reported periodically while playing, update the buffered ranges when paused
+			if (this.progressTimer === null) this.notifyProgress()
+		})
 
-		// Update metadata without starting playback
-		this.reportMetadata()
-		this.notifyQueueChange()
-
-		log.player(`Switched to track: ${track?.metadata?.title || 'Unknown'}`)
+		audio.addEventListener('waiting', () => {
+			if (audio !== this.currentAudio || !this.isPlaying) return
+			// Waiting for the data at a new position after a seek isn't a stall
+			this.setBuffering(true, !(audio instanceof HTMLMediaElement && audio.seeking))
+		})
+		// A stalled download only matters once the media element runs out of data
+		audio.addEventListener('stalled', () => {
+			if (audio === this.nextAudio) log.player('Preloading the next track stalled')
+			if (audio !== this.currentAudio || !this.isPlaying) return
+			if (audio instanceof HTMLMediaElement && audio.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) {
+				this.setBuffering(true)
+			}
+		})
 	}
 
 	/**
-	 * Gets the actual queue index based on the current order.
+	 * Sets whether playback is waiting for the current track to load, counting stalls of a started track.
 	 * @private
-	 * @param {number} orderIndex - The index in the order array
-	 * @returns {number} The actual index in the queue array
+	 * @param {boolean} buffering - Whether playback is waiting
+	 * @param {boolean} [stall] - Whether waiting counts as a stall, false while seeking
+	 * @fires BufferingChangeListener
 	 */
-	private getActualQueueIndex(orderIndex: number): number {
-		// If order array is empty, initialize it
-		if (this.order.length === 0) {
-			this.restoreOriginalOrder()
+	private setBuffering(buffering: boolean, stall = true) {
+		if (this.buffering === buffering) return
+		this.buffering = buffering
+
+		if (buffering && this.trackStarted) {
+			if (stall) {
+				this.stats.stallCount++
+				this.stallStartedAt = performance.now()
+				log.player('Playback stalled')
+			}
+			this.setState('buffering')
+		} else if (!buffering && this.stallStartedAt !== null) {
+			this.stats.stallTime += (performance.now() - this.stallStartedAt) / 1000
+			this.stallStartedAt = null
 		}
+		if (!buffering && this.state === 'buffering') this.setState('playing')
 
-		// Return the actual queue index from the order array
-		return this.order[orderIndex] ?? orderIndex
+		this.bufferingListeners.forEach((listener) => {
+			listener(buffering)
+		})
 	}
 
 	/**
-	 * Gets the current playing track from the queue.
+	 * Counts a transition to the next track at the end of a track.
 	 * @private
-	 * @returns {QueueItem | undefined} The current playing track
+	 * @param {boolean} preloaded - Whether the next track had finished preloading
 	 */
-	private getCurrentTrack(): QueueItem | undefined {
-		const actualIndex = this.getActualQueueIndex(this.currentPlayingPointer)
-		return this.queue[actualIndex]
+	private recordTransition(preloaded: boolean) {
+		this.stats.transitions++
+		if (preloaded) this.stats.preloadedTransitions++
+		this.stats.lastTransitionPreloaded = preloaded
 	}
 
 	/**
-	 * Shuffle the queue using Fisher-Yates algorithm.
-	 * Keeps the current and previous items in place if currently playing.
+	 * Checks whether a track audio has loaded its whole file.
 	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @returns {boolean} True if the whole file is buffered
 	 */
-	private shuffleQueue() {
-		// if currently playing or current pointer is not in the first item,
-		// the algorithm will keep the current and previous items as is.
-		const shouldKeepPrevious =
-			this.isPlaying || this.currentPlayingPointer > 0 || (!!this.currentAudio && this.currentAudio.currentTime !== 0)
-
-		const startShuffleFrom = shouldKeepPrevious ? this.currentPlayingPointer + 1 : 0
+	private isFullyBuffered(audio: PlayerAudio): boolean {
+		const { buffered, duration } = audio
+		if (Number.isNaN(duration) || buffered.length !== 1) return false
+		return buffered.start(0) <= BUFFERED_TOLERANCE && buffered.end(0) >= duration - BUFFERED_TOLERANCE
+	}
 
-		const keepRemainRange: number[] = []
-		const shuffleRange: number[] = []
-		for (const i in this.queue) {
-			if (parseInt(i, 10) < startShuffleFrom) keepRemainRange.push(parseInt(i, 10))
-			else shuffleRange.push(parseInt(i, 10))
+	/**
+	 * Gets the loaded parts of the current track, relative to its slice.
+	 * @private
+	 * @returns {{start: number, end: number}[]} The buffered ranges in seconds from the start of the track
+	 */
+	private getBufferedRanges(): { start: number; end: number }[] {
+		if (!this.currentAudio) return []
+		const { buffered } = this.currentAudio
+		const slice = this.getSlice(this.getCurrentTrack(), this.currentAudio)
+		const sliceEnd = Number.isNaN(slice.end) ? Number.POSITIVE_INFINITY : slice.end
+
+		const ranges: { start: number; end: number }[] = []
+		for (let i = 0; i < buffered.length; i++) {
+			const start = Math.max(buffered.start(i), slice.start)
+			const end = Math.min(buffered.end(i), sliceEnd)
+			if (end > start) ranges.push({ start: start - slice.start, end: end - slice.start })
 		}
+		return ranges
+	}
 
-		// Shuffle the shuffleRange using Fisher-Yates algorithm
-		for (let i = shuffleRange.length - 1; i > 0; i--) {
-			const j = Math.floor(Math.random() * (i + 1))
-			;[shuffleRange[i], shuffleRange[j]] = [shuffleRange[j], shuffleRange[i]]
+	/**
+	 * Notifies progress listeners of the current position, e.g. after the buffered ranges changed.
+	 * A position which was just set, by a seek or a track change, is reported even while the duration is unknown.
+	 * @private
+	 * @param {number} [position] - The position just set, in seconds. Defaults to the current position
+	 * @fires PlaybackProgressListener
+	 */
+	private notifyProgress(position?: number) {
+		if (this.progressListeners.size === 0) return
+		const duration = this.getTrackDuration() || 0
+		if (position === undefined && duration <= 0) return
+
+		const currentTime = position ?? this.getTrackPosition()
+		const progress: PlaybackProgress = {
+			currentTime,
+			duration,
+			percentage: duration > 0 ? (currentTime / duration) * 100 : 0,
+			playbackRate: this.playbackRate,
+			timeRemaining: Math.max(0, duration - currentTime) / this.playbackRate,
+			buffered: this.getBufferedRanges(),
 		}
 
-		// Combine the kept items with the shuffled items
-		this.order = [...keepRemainRange, ...shuffleRange]
-
-		log.player('Queue shuffled. New order:', this.order)
+		this.progressListeners.forEach((listener) => {
+			listener(progress)
+		})
 	}
 
 	/**
-	 * Restore the queue to its original order.
+	 * Gets the part of its file a track plays: a slice between its start and end times, or the whole file.
 	 * @private
+	 * @param {QueueItem | null | undefined} track - The track
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @returns {{start: number, end: number}} The start and end of the slice in file time, the end is NaN while unknown
 	 */
-	private restoreOriginalOrder() {
-		// preserve current playing item
-		const currentPlaying = this.order[this.currentPlayingPointer]
-
-		this.order = []
-		for (const i in this.queue) {
-			this.order.push(parseInt(i, 10))
-		}
+	private getSlice(track: QueueItem | null | undefined, audio: PlayerAudio): { start: number; end: number } {
+		const start = track?.startTime ?? 0
+		const endTime = track?.endTime
+		if (Number.isNaN(audio.duration)) return { start, end: endTime ?? Number.NaN }
+		return { start, end: endTime !== undefined ? Math.min(endTime, audio.duration) : audio.duration }
+	}
 
-		// Only adjust currentPlayingPointer if there's active playback
-		// Don't adjust if: no audio exists, or audio exists but hasn't started playing
-		const hasActivePlayback = this.currentAudio && (this.currentAudio.currentTime > 0 || !this.currentAudio.paused)
+	/**
+	 * Gets the playback position in the current track, relative to its slice.
+	 * @private
+	 * @returns {number} The position in seconds, 0 without audio
+	 */
+	private getTrackPosition(): number {
+		if (!this.currentAudio) return 0
+		return Math.max(0, this.currentAudio.currentTime - this.getSlice(this.getCurrentTrack(), this.currentAudio).start)
+	}
 
-		if (hasActivePlayback) {
-			// Find the new position of the currently playing track in the restored order
-			this.currentPlayingPointer = this.order.indexOf(currentPlaying)
-			if (this.currentPlayingPointer === -1) {
-				// Fallback to 0 if current track not found (shouldn't happen)
-				this.currentPlayingPointer = 0
-			}
-		}
-		// Otherwise keep currentPlayingPointer as is (typically 0 for no playback)
+	/**
+	 * Gets the duration of the current track, which is the duration of its slice.
+	 * @private
+	 * @returns {number} The duration in seconds, NaN while unknown
+	 */
+	private getTrackDuration(): number {
+		if (!this.currentAudio) return Number.NaN
+		const slice = this.getSlice(this.getCurrentTrack(), this.currentAudio)
+		return slice.end - slice.start
+	}
 
-		log.player('Queue restored to original order')
+	/**
+	 * Checks whether the next track is the following slice of the file of the current track,
+	 * in which case the current audio keeps playing into it.
+	 * @private
+	 * @returns {boolean} True if the next track continues in the same file
+	 */
+	private continuesInSameFile(): boolean {
+		const current = this.getCurrentTrack()
+		const next = this.getNextItem()
+		if (!current || !next || current.endTime === undefined || this.loop === 'single_track') return false
+		return next.url === current.url && Math.abs((next.startTime ?? 0) - current.endTime) < SLICE_TOLERANCE
 	}
 
 	/**
-	 * Handles the end of a track based on the current loop mode.
+	 * Makes the next track, the following slice of the same file, current without touching the audio.
 	 * @private
 	 */
-	private handleTrackEnd() {
-		if (this.loop === 'single_track') {
-			// Single track loop - replay the same track
-			log.player('Looping single track')
-			if (this.currentAudio) {
-				this.currentAudio.currentTime = 0
-				this.currentAudio.play()
-			}
-		} else if (this.currentPlayingPointer + 1 >= this.queue.length) {
-			// End of queue reached
-			if (this.loop === 'entire_queue') {
-				// Loop entire queue - go back to the first track
-				log.player('Looping entire queue')
-				this.currentPlayingPointer = -1 // Will be incremented to 0 in playNext
-				this.playNext()
-			} else {
-				// No loop - stop playback
-				log.player('End of queue, stopping playback')
-				this.togglePlaying(false)
-			}
-		} else {
-			// Normal next track
-			this.playNext()
-		}
+	private continueIntoNextSlice() {
+		log.player('Continuing into the next slice of the same file')
+		this.moveToNextTrack()
+		this.cancelNext()
+		this.notifyQueueChange()
+		this.reportMetadata()
 	}
 
 	/**
-	 * Updates the next track scheduling based on current playback position.
-	 * Called after seeking to determine if we need to schedule or cancel the next track.
+	 * Ends the current track at the end of its slice.
+	 * The Web Audio engine stops there at the exact sample, otherwise a timer ends the track.
+	 * When the next track is the following slice of the same file, the timer only switches tracks.
 	 * @private
 	 */
-	private updateNextTrackSchedule() {
-		if (!this.currentAudio) return
+	private scheduleSliceEnd() {
+		this.cancelSliceEnd()
+		const audio = this.currentAudio
+		const end = this.getCurrentTrack()?.endTime
+		if (!audio) return
+
+		const continues = this.continuesInSameFile()
+		if (audio instanceof BufferedAudio) audio.setEndPosition(continues ? null : (end ?? null))
+		if (end === undefined || audio.paused || this.abRepeat) return
+		if (audio instanceof BufferedAudio && !continues) return
+
+		const timeRemaining = (end - audio.currentTime) / this.playbackRate
+		this.sliceEndTimer = window.setTimeout(
+			() => {
+				this.sliceEndTimer = null
+				if (audio !== this.currentAudio) return
+
+				// Timers may fire a little early
+				if (audio.currentTime < end - SLICE_TOLERANCE) {
+					this.scheduleSliceEnd()
+					return
+				}
+				log.player('Current track slice ended')
+				// The rest of the file would keep playing while the next track loads, stop it like a file ending
+				if (!this.continuesInSameFile()) audio.pause()
+				this.handleTrackEnd()
+			},
+			Math.max(0, timeRemaining * 1000),
+		)
+	}
+
+	/**
+	 * Cancels the timer ending the current track slice.
+	 * @private
+	 */
+	private cancelSliceEnd() {
+		if (this.sliceEndTimer !== null) {
+			window.clearTimeout(this.sliceEndTimer)
+			this.sliceEndTimer = null
+		}
+	}
+
+	/**
+	 * Gets the index of the chapter of the current track at the playback position.
+	 * @private
+	 * @returns {number} The index of the chapter, -1 before the first chapter or without chapters
+	 */
+	private getCurrentChapterIndex(): number {
+		const chapters = this.getCurrentTrack()?.chapters
+		if (!chapters || !this.currentAudio) return -1
+
+		const position = this.getTrackPosition() + SLICE_TOLERANCE
+		let index = -1
+		chapters.forEach((chapter, i) => {
+			if (chapter.startTime <= position) index = i
+		})
+		return index
+	}
+
+	/**
+	 * Notifies chapter listeners when the chapter at the playback position changed.
+	 * @private
+	 * @fires ChapterChangeListener
+	 */
+	private checkChapterChange() {
+		const chapter = this.getCurrentTrack()?.chapters?.[this.getCurrentChapterIndex()] ?? null
+		if (chapter === this.lastNotifiedChapter) return
+		this.lastNotifiedChapter = chapter
+
+		this.chapterListeners.forEach((listener) => {
+			listener(chapter)
+		})
+	}
+
+	/**
+	 * Checks whether the sleep timer stops playback at the end of the current track.
+	 * @private
+	 * @returns {boolean} True if the current track is the last one of the sleep timer
+	 */
+	private isStoppingAtTrackEnd(): boolean {
+		return this.sleepTimer?.type === 'tracks' && this.sleepTimer.tracksRemaining <= 1
+	}
+
+	/**
+	 * Gets the time until the sleep timer stops playback.
+	 * @private
+	 * @returns {number | null} The time in seconds, or null when it depends on tracks other than the current one
+	 */
+	private getSleepTimeRemaining(): number | null {
+		const timer = this.sleepTimer
+		if (!timer) return null
+		if (timer.type === 'duration') return Math.max(0, (timer.endsAt - Date.now()) / 1000)
+
+		const duration = this.getTrackDuration()
+		if (timer.tracksRemaining > 1 || Number.isNaN(duration)) return null
+		return Math.max(0, (duration - this.getTrackPosition()) / this.playbackRate)
+	}
+
+	/**
+	 * Stops playback when the sleep timer runs out, and starts the fade-out over its final seconds.
+	 * Timers counting tracks stop when the last track ends, in `handleTrackEnd`.
+	 * @private
+	 */
+	private checkSleepTimer() {
+		const timer = this.sleepTimer
+		const timeRemaining = this.getSleepTimeRemaining()
+		if (!timer || timeRemaining === null) return
+
+		if (timer.type === 'duration' && timeRemaining <= 0) {
+			this.stopForSleep(false).catch((error) => {
+				log.player('Failed to stop playback for the sleep timer:', error)
+			})
+			return
+		}
+
+		if (!timer.fading && this.isPlaying && timer.fadeOut > 0 && timeRemaining <= timer.fadeOut) {
+			log.player(`Sleep timer fading out over ${timeRemaining} seconds`)
+			timer.fading = true
+			rampGain(this.context, this.pauseFader.gain, 0, timeRemaining)
+		}
+	}
+
+	/**
+	 * Stops playback for the sleep timer and removes the timer.
+	 * When stopping at the end of a track, the following track becomes current without playing.
+	 * @private
+	 * @param {boolean} atTrackEnd - Whether the current track just ended
+	 */
+	private async stopForSleep(atTrackEnd: boolean) {
+		log.player('Sleep timer ran out, stopping playback')
+		this.clearSleepTimer()
+		await this.togglePlaying(false)
+		if (atTrackEnd) await this.skipToNext()
+	}
+
+	/**
+	 * Removes the sleep timer and notifies listeners.
+	 * @private
+	 * @fires SleepTimerChangeListener
+	 */
+	private clearSleepTimer() {
+		if (this.sleepTimerInterval !== null) {
+			window.clearInterval(this.sleepTimerInterval)
+			this.sleepTimerInterval = null
+		}
+		this.sleepTimer = null
+		this.notifySleepTimerChange()
+	}
+
+	/**
+	 * Brings the volume back if the sleep timer was fading out.
+	 * @private
+	 */
+	private cancelSleepFade() {
+		if (!this.sleepTimer?.fading) return
+		this.sleepTimer.fading = false
+		rampGain(this.context, this.pauseFader.gain, this.isPlaying ? 1 : 0, this.pauseFadeDuration)
+	}
+
+	/**
+	 * Notifies sleep timer listeners of the state of the sleep timer.
+	 * @private
+	 * @fires SleepTimerChangeListener
+	 */
+	private notifySleepTimerChange() {
+		const state = this.getSleepTimer()
+		this.sleepTimerListeners.forEach((listener) => {
+			listener(state)
+		})
+	}
+
+	/**
+	 * Notifies A–B repeat listeners of the repeated section.
+	 * @private
+	 * @fires ABRepeatChangeListener
+	 */
+	private notifyABRepeatChange() {
+		this.abRepeatListeners.forEach((listener) => {
+			listener(this.abRepeat ? { ...this.abRepeat } : null)
+		})
+	}
+
+	/**
+	 * Applies the playback speed and pitch setting to an audio.
+	 * The default speed is set too, as media elements restore it when loading.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio to apply the playback speed to
+	 */
+	private applyPlaybackRate(audio: PlayerAudio) {
+		audio.defaultPlaybackRate = this.playbackRate
+		audio.playbackRate = this.playbackRate
+		audio.preservesPitch = this.preservePitch
+	}
+
+	/**
+	 * Reports the position of the current track to the browser's MediaSession API,
+	 * so system media controls show the right progress at the current playback speed.
+	 * @private
+	 */
+	private reportPositionState() {
+		if (!('setPositionState' in navigator.mediaSession)) return
+		const duration = this.getTrackDuration()
+		if (!Number.isFinite(duration) || duration <= 0) return
+
+		try {
+			navigator.mediaSession.setPositionState({
+				duration,
+				playbackRate: this.playbackRate,
+				position: Math.max(0, Math.min(this.getTrackPosition(), duration)),
+			})
+		} catch (error) {
+			log.player('Failed to report position state:', error)
+		}
+	}
+
+	/**
+	 * Applies the volume and mute state to the master gain node and notifies listeners.
+	 * @private
+	 * @fires VolumeChangeListener
+	 */
+	private applyVolume() {
+		resetGain(this.context, this.masterGain.gain, this.muted ? 0 : this.volume)
+		this.volumeListeners.forEach((listener) => {
+			listener(this.volume, this.muted)
+		})
+	}
+
+	/**
+	 * Checks whether the next track should be preloaded at the current position of a track.
+	 * Preloads when 20 seconds (plus the crossfade) are remaining at the current playback speed,
+	 * or halfway through, whichever comes first.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the current track
+	 * @returns {boolean} True if the next track should be preloaded
+	 */
+	private shouldPreloadNext(audio: PlayerAudio): boolean {
+		const slice = this.getSlice(this.getCurrentTrack(), audio)
+		const position = audio.currentTime - slice.start
+		const duration = slice.end - slice.start
+		const timeRemaining = (duration - position) / this.playbackRate
+		return timeRemaining < PRELOAD_LEAD_TIME + this.crossfade.duration || position > duration / 2
+	}
+
+	/**
+	 * Gets the crossfade duration between the current and the next track.
+	 * @private
+	 * @returns {number} The crossfade duration in seconds, 0 when crossfade doesn't apply
+	 */
+	private getCrossfadeDuration(): number {
+		if (this.loop === 'single_track') return 0
+		return this.crossfade.duration
+	}
+
+	/**
+	 * Checks whether a manual track change should crossfade.
+	 * @private
+	 * @returns {boolean} True if manual skips are configured to crossfade
+	 */
+	private shouldCrossfadeSkip(): boolean {
+		return this.crossfade.onSkip && this.crossfade.duration > 0
+	}
+
+	/**
+	 * Starts the preloaded next track early to crossfade with the current one, once the current track
+	 * is within the crossfade duration of its end. The Web Audio engine schedules its crossfade ahead instead.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the current track
+	 */
+	private startCrossfadeIfDue(audio: PlayerAudio) {
+		const fadeDuration = this.getCrossfadeDuration()
+		if (fadeDuration <= 0 || this.crossfading || audio instanceof BufferedAudio) return
+		if (this.isStoppingAtTrackEnd()) return
+		if (!this.nextAudio?.paused || !this.currentSource || !this.nextSource || audio.paused) return
+
+		const timeRemaining = (this.getTrackDuration() - this.getTrackPosition()) / this.playbackRate
+		if (!(timeRemaining <= fadeDuration) || timeRemaining <= 0) return
+
+		log.player(`Crossfading into next track over ${timeRemaining} seconds`)
+		this.crossfading = true
+		const now = this.context.currentTime
+		applyFade(this.context, this.currentSource.gain, this.crossfade.curve, 'out', now, timeRemaining)
+		applyFade(this.context, this.nextSource.gain, this.crossfade.curve, 'in', now, timeRemaining)
+
+		this.nextAudio.currentTime = this.getSlice(this.nextItem, this.nextAudio).start
+		this.nextAudio.volume = 1
+		this.nextStarted = true
+		this.playAudio(this.nextAudio).catch((error) => {
+			log.player('Failed to start crossfade:', error)
+			this.resetCrossfade()
+		})
+	}
+
+	/**
+	 * Cancels a crossfade in progress, bringing the current track back to full gain
+	 * and stopping the next track if it started early.
+	 * @private
+	 */
+	private resetCrossfade() {
+		if (this.currentSource) resetGain(this.context, this.currentSource.gain, 1)
+		if (this.nextSource) resetGain(this.context, this.nextSource.gain, 1)
+
+		if (this.crossfading && this.nextAudio && !(this.nextAudio instanceof BufferedAudio)) {
+			this.nextAudio.pause()
+			this.nextAudio.currentTime = this.getSlice(this.nextItem, this.nextAudio).start
+		}
+		this.crossfading = false
+		this.nextStarted = false
+	}
+
+	/**
+	 * Fades out an audio which is being replaced, then stops and disconnects it.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio to fade out
+	 * @param {GainNode | null} fader - The output gain node of the audio
+	 */
+	private fadeOutAndRelease(audio: PlayerAudio, fader: GainNode | null) {
+		const duration = this.crossfade.duration
+		if (!fader || audio.paused || duration <= 0) {
+			audio.pause()
+			fader?.disconnect()
+			return
+		}
+
+		applyFade(this.context, fader.gain, this.crossfade.curve, 'out', this.context.currentTime, duration)
+		window.setTimeout(() => {
+			audio.pause()
+			fader.disconnect()
+		}, duration * 1000)
+	}
+
+	/**
+	 * Creates the audio of a track with the configured playback engine, and connects it to the output.
+	 * The audio plays at the current playback speed, with the normalization gain of the track,
+	 * from the start of the track slice.
+	 * Sources which must be resolved first load in the background, playing the audio waits for them.
+	 * @private
+	 * @param {QueueItem} track - The track
+	 * @returns {{audio: PlayerAudio, source: GainNode}} The audio and its output gain node
+	 */
+	private createAudio(track: QueueItem): { audio: PlayerAudio; source: GainNode } {
+		// Each track has its own fader, so tracks can overlap during crossfades
+		const fader = this.context.createGain()
+		fader.connect(this.pauseFader)
+		const normalizer = this.context.createGain()
+		normalizer.connect(fader)
+
+		// Tracks with several sources play the preferred one the browser supports, and fall back to the others
+		const candidates = track.source ? [] : this.getSourceCandidates(track)
+		const src = candidates.length > 0 ? candidates[0].url : this.getCachedSource(track)
+		let audio: PlayerAudio
+		if (this.engine === 'web_audio') {
+			const bufferedAudio = new BufferedAudio(this.context, src ?? '')
+			bufferedAudio.output.connect(normalizer)
+			audio = bufferedAudio
+		} else {
+			const element = new Audio(src ?? undefined)
+			element.crossOrigin = 'true'
+			this.context.createMediaElementSource(element).connect(normalizer)
+			audio = element
+		}
+		if (src === null) this.loadSource(audio, track, this.resolveSource(track))
+		if (candidates.length > 0) {
+			this.playingSources.set(audio, candidates[0])
+			this.fallbackSources.set(audio, candidates.slice(1))
+		}
+
+		// Failed sources fall back to other sources, or are resolved again
+		audio.addEventListener('error', () => this.handleAudioError(audio, track))
+		audio.addEventListener('canplay', () => this.refreshedAudios.delete(audio))
+		this.bindBufferingEvents(audio)
+
+		this.normalizers.set(audio, normalizer)
+		this.applyPlaybackRate(audio)
+		this.applyNormalization(audio, track)
+		if (track.startTime) audio.currentTime = track.startTime
+		return { audio, source: fader }
+	}
+
+	/**
+	 * Sets the normalization gain of a track audio.
+	 * When the track has no loudness information, its loudness is measured and the gain applied once known.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @param {QueueItem} track - The track
+	 */
+	private applyNormalization(audio: PlayerAudio, track: QueueItem) {
+		const normalizer = this.normalizers.get(audio)
+		if (!normalizer) return
+
+		const { mode, targetLoudness, analyze } = this.normalization
+		if (mode === 'off') {
+			resetGain(this.context, normalizer.gain, 1)
+			return
+		}
+
+		const gain = computeNormalizationGain(track.loudness ?? {}, mode, targetLoudness)
+		if (gain !== null) {
+			resetGain(this.context, normalizer.gain, 10 ** (gain / 20))
+			return
+		}
+
+		// Unknown loudness, play at the original level until measured
+		resetGain(this.context, normalizer.gain, 1)
+		if (!analyze) return
+		this.measureTrackLoudness(audio, track).then((measurement) => {
+			if (!measurement || this.normalization.mode === 'off') return
+			if (audio !== this.currentAudio && audio !== this.nextAudio) return
+
+			const measuredGain = computeNormalizationGain(
+				{ integratedLoudness: measurement.integratedLoudness, trackPeak: measurement.peak },
+				'track',
+				this.normalization.targetLoudness,
+			)
+			if (measuredGain === null) return
+			log.player(`Measured loudness of ${track.url}: ${measurement.integratedLoudness} LUFS`)
+			rampGain(this.context, normalizer.gain, 10 ** (measuredGain / 20), NORMALIZATION_RAMP_DURATION)
+		})
+	}
+
+	/**
+	 * Measures the loudness of a track from its decoded audio, once per URL.
+	 * The Web Audio engine reuses the decoded audio of the track, otherwise the track is downloaded and decoded
+	 * a second time, which is why analysis is opt-in with the media element engine.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @param {QueueItem} track - The track
+	 * @returns {Promise<LoudnessMeasurement | null>} The loudness of the track, or null if it couldn't be measured
+	 */
+	private measureTrackLoudness(audio: PlayerAudio, track: QueueItem): Promise<LoudnessMeasurement | null> {
+		const url = track.url
+		const cached = this.loudnessCache.get(url)
+		if (cached) return cached
+
+		const measurement = (async () => {
+			try {
+				let buffer: AudioBuffer
+				if (audio instanceof BufferedAudio) {
+					// A source which can't be resolved fails the measurement, instead of leaving it waiting
+					await this.pendingSources.get(audio)
+					buffer = await audio.getBuffer()
+				} else {
+					const response = await fetch(await this.resolveSource(track))
+					if (!response.ok) throw new DOMException(`HTTP ${response.status}`, 'NetworkError')
+					buffer = await this.context.decodeAudioData(await response.arrayBuffer())
+				}
+				return await measureLoudness(buffer)
+			} catch (error) {
+				log.player('Failed to measure loudness:', error)
+				// Allow measuring again later
+				this.loudnessCache.delete(url)
+				return null
+			}
+		})()
+		this.loudnessCache.set(url, measurement)
+		return measurement
+	}
+
+	/**
+	 * Fills the missing metadata, duration, lyrics and loudness information of a track from its embedded tags.
+	 * Slices of a file only take the artist, album and artwork of the file.
+	 * Once filled, queue listeners are notified and the metadata of the current track is reported again.
+	 * @private
+	 * @param {QueueItem} track - The track, as stored in the queue
+	 * @fires QueueChangeListener
+	 * @fires QueueDiffListener
+	 */
+	private fillMetadata(track: QueueItem) {
+		if (!this.tagReading || this.taggedItems.has(track)) return
+		this.taggedItems.add(track)
+
+		const slice = track.startTime !== undefined || track.endTime !== undefined
+		const metadata = track.metadata ?? {}
+		const complete =
+			metadata.title && metadata.artist && metadata.album && metadata.artwork?.length && (slice || track.loudness)
+		if (complete) return
+
+		this.readTrackTags(track).then((tags) => {
+			if (!tags) return
+
+			const filled: NonNullable<QueueItem['metadata']> = {
+				artist: metadata.artist ?? tags.artist,
+				album: metadata.album ?? tags.album,
+				artwork: metadata.artwork?.length ? metadata.artwork : tags.artwork,
+			}
+			if (!slice) {
+				filled.title = metadata.title ?? tags.title
+				filled.duration = metadata.duration ?? tags.duration
+				filled.lyrics = metadata.lyrics ?? tags.lyrics
+			}
+			const changed = Object.entries(filled).filter(
+				([key, value]) => value !== undefined && value !== metadata[key as keyof typeof metadata],
+			)
+			const loudness = !slice && !track.loudness ? tags.loudness : undefined
+			if (changed.length === 0 && !loudness) return
+
+			// The metadata object may be shared with the item given by the caller, replace it instead of changing it
+			track.metadata = { ...metadata, ...Object.fromEntries(changed) }
+			if (loudness) {
+				track.loudness = loudness
+				if (track === this.getCurrentTrack() && this.currentAudio) this.applyNormalization(this.currentAudio, track)
+				if (track === this.nextItem && this.nextAudio) this.applyNormalization(this.nextAudio, track)
+			}
+
+			log.player(`Filled metadata of ${track.url} from its tags`)
+			this.notifyQueueChange([{ type: 'updated', id: track.id!, item: this.cloneTrack(track) }])
+			if (track === this.getCurrentTrack()) this.reportMetadata()
+		})
+	}
+
+	/**
+	 * Reads the embedded tags of a track, once per URL while cached.
+	 * The cache keeps the tags of the most recently read files.
+	 * @private
+	 * @param {QueueItem} track - The track
+	 * @returns {Promise<TrackTags | null>} The tags, or null if they couldn't be read
+	 */
+	private readTrackTags(track: QueueItem): Promise<TrackTags | null> {
+		const url = track.url
+		const cached = this.tagCache.get(url)
+		if (cached) {
+			// Most recently used last
+			this.tagCache.delete(url)
+			this.tagCache.set(url, cached)
+			return cached
+		}
+
+		const tags = (async () => readTags(await this.resolveSource(track)))().then(
+			(result) => {
+				const artwork = result.artwork?.map((image) => image.src) ?? []
+				if (artwork.length > 0) this.artworkUrls.set(url, [...(this.artworkUrls.get(url) ?? []), ...artwork])
+				return result
+			},
+			(error) => {
+				log.player('Failed to read tags:', error)
+				return null
+			},
+		)
+		this.tagCache.set(url, tags)
+		for (const key of this.tagCache.keys()) {
+			if (this.tagCache.size <= TAG_CACHE_SIZE) break
+			this.tagCache.delete(key)
+		}
+		return tags
+	}
+
+	/**
+	 * Revokes the object URLs of the embedded artwork of files no queue item plays anymore,
+	 * and of the Blob sources no queue item or playing audio uses anymore.
+	 * Called after every queue change.
+	 * @private
+	 */
+	private releaseObjectUrls() {
+		const items = [...this.queue, ...this.upNext]
+		if (this.currentUpNext) items.push(this.currentUpNext)
+		const urls = new Set(items.map((item) => item.url))
+
+		for (const [url, artwork] of this.artworkUrls) {
+			if (urls.has(url)) continue
+			for (const src of artwork) URL.revokeObjectURL(src)
+			this.artworkUrls.delete(url)
+			// The cached tags hold the revoked URLs
+			this.tagCache.delete(url)
+		}
+
+		const sources = new Set([this.currentAudio?.src, this.nextAudio?.src])
+		for (const item of items) {
+			if (item.source instanceof Blob) sources.add(this.blobUrls.get(item.source))
+			sources.add(this.resolvedSources.get(item)?.url)
+		}
+		for (const [blob, url] of this.blobUrls) {
+			if (sources.has(url)) continue
+			URL.revokeObjectURL(url)
+			this.blobUrls.delete(blob)
+		}
+	}
+
+	/**
+	 * Gets the sources of a track the browser can play, in the order to try them.
+	 * @private
+	 * @param {QueueItem} track - The track
+	 * @returns {TrackSourceOption[]} The playable sources, the preferred one first. Empty if the track has a single source
+	 */
+	private getSourceCandidates(track: QueueItem): TrackSourceOption[] {
+		if (!track.sources?.length) return []
+		const candidates = selectSources(track.sources, this.qualityPreference, (type) => this.typeProbe.canPlayType(type))
+		if (candidates.length === 0) log.player(`None of the sources of ${track.url} can play, using its URL`)
+		return candidates
+	}
+
+	/**
+	 * Gets the URL to play a track from without resolving its source, the preferred one for tracks with several sources.
+	 * @private
+	 * @param {QueueItem} track - The track
+	 * @returns {string | null} The URL, or null if the source must be resolved first
+	 */
+	private getCachedSource(track: QueueItem): string | null {
+		const source = track.source
+		if (!source) return this.getSourceCandidates(track)[0]?.url ?? track.url
+		if (source instanceof Blob) return this.getBlobUrl(source)
+
+		const resolved = this.resolvedSources.get(track)
+		return resolved && resolved.expiresAt > Date.now() ? resolved.url : null
+	}
+
+	/**
+	 * Gets the URL to play a track from, calling its resolver unless a resolved source is still valid.
+	 * @private
+	 * @param {QueueItem} track - The track
+	 * @param {boolean} [refresh] - Whether to call the resolver even if a resolved source is still valid
+	 * @returns {Promise<string>} The URL
+	 */
+	private async resolveSource(track: QueueItem, refresh = false): Promise<string> {
+		const cached = this.getCachedSource(track)
+		if (typeof track.source !== 'function' || (cached !== null && !refresh)) return cached ?? track.url
+
+		log.player(`Resolving source of ${track.url}`)
+		const result = await track.source(track)
+		const resolved =
+			typeof result === 'string'
+				? { url: result, expiresAt: Date.now() + this.sourceTTL * 1000 }
+				: result instanceof Blob
+					? { url: this.getBlobUrl(result), expiresAt: Number.POSITIVE_INFINITY }
+					: { url: result.url, expiresAt: result.expiresAt ?? Date.now() + this.sourceTTL * 1000 }
+		this.resolvedSources.set(track, resolved)
+		return resolved.url
+	}
+
+	/**
+	 * Gets the object URL of a Blob source, created once per Blob.
+	 * @private
+	 * @param {Blob} blob - The Blob
+	 * @returns {string} The object URL
+	 */
+	private getBlobUrl(blob: Blob): string {
+		let url = this.blobUrls.get(blob)
+		if (!url) {
+			url = URL.createObjectURL(blob)
+			this.blobUrls.set(blob, url)
+		}
+		return url
+	}
+
+	/**
+	 * Loads a source into the audio of a track once known, keeping the playback position.
+	 * A source which can't be resolved is a network error of the track.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @param {QueueItem} track - The track
+	 * @param {Promise<string>} source - The URL of the source, e.g. being resolved
+	 * @returns {Promise<void>}
+	 */
+	private loadSource(audio: PlayerAudio, track: QueueItem, source: Promise<string>): Promise<void> {
+		const loading = (async () => {
+			const url = await source
+			const position = audio.currentTime
+			audio.src = url
+			audio.load()
+			if (position) audio.currentTime = position
+		})()
+
+		this.pendingSources.set(audio, loading)
+		loading
+			.catch((error) => {
+				log.player('Failed to resolve track source:', error)
+				this.handlePlaybackError(audio, track, 'network', 'The source of the track could not be resolved', error)
+			})
+			.finally(() => {
+				if (this.pendingSources.get(audio) === loading) this.pendingSources.delete(audio)
+			})
+		return loading
+	}
+
+	/**
+	 * Plays a track audio once its source is loaded.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @returns {Promise<void>}
+	 * @throws {DOMException} When the source can't be resolved or the audio can't play
+	 */
+	private async playAudio(audio: PlayerAudio): Promise<void> {
+		await this.pendingSources.get(audio)
+		await audio.play()
+	}
+
+	/**
+	 * Handles a track audio which failed to load. Falls back to the next source of the track,
+	 * or resolves the source of the track again, e.g. because its URL expired.
+	 * Resolvers are called again once until the audio can play. Otherwise the error policy applies.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio which failed
+	 * @param {QueueItem} track - The track of the audio
+	 */
+	private handleAudioError(audio: PlayerAudio, track: QueueItem) {
+		if (audio !== this.currentAudio && audio !== this.nextAudio) return
+
+		const fallback = this.fallbackSources.get(audio)?.shift()
+		if (fallback) {
+			log.player(`Source ${this.playingSources.get(audio)?.url} failed, falling back to ${fallback.url}`)
+			this.playingSources.set(audio, fallback)
+			this.reloadAudio(audio, track, Promise.resolve(fallback.url))
+			return
+		}
+
+		// A new URL doesn't fix undecodable audio
+		const code = this.getErrorCode(audio)
+		if (typeof track.source === 'function' && !this.refreshedAudios.has(audio) && code !== 'decode') {
+			log.player(`Source of ${track.url} failed, resolving it again`)
+			this.refreshedAudios.add(audio)
+			this.reloadAudio(audio, track, this.resolveSource(track, true))
+			return
+		}
+
+		this.handlePlaybackError(audio, track, code, audio.error?.message || 'The track failed to load')
+	}
+
+	/**
+	 * Loads a new source into a track audio, resuming playback from the same position if it was playing.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @param {QueueItem} track - The track
+	 * @param {Promise<string>} source - The URL of the new source
+	 */
+	private reloadAudio(audio: PlayerAudio, track: QueueItem, source: Promise<string>) {
+		const resume = audio === this.currentAudio && this.isPlaying
+		this.loadSource(audio, track, source)
+			.then(async () => {
+				if (resume && audio === this.currentAudio && this.isPlaying) await this.playAudio(audio)
+			})
+			.catch((error) => {
+				log.player('Failed to resume after loading a new source:', error)
+			})
+	}
+
+	/**
+	 * Gets the error code of a track audio which failed to load.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @returns {PlayerErrorCode} The error code, `network` when the audio has no error details
+	 */
+	private getErrorCode(audio: PlayerAudio): PlayerErrorCode {
+		switch (audio.error?.code) {
+			case MediaError.MEDIA_ERR_ABORTED:
+				return 'aborted'
+			case MediaError.MEDIA_ERR_DECODE:
+				return 'decode'
+			case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+				return 'unsupported_format'
+			default:
+				return 'network'
+		}
+	}
+
+	/**
+	 * Reports an error of a track to error listeners and applies the error policy.
+	 * A failed preload only stops preloading, the track is loaded again once it becomes current.
+	 * Autoplay blocks and aborted loads are reported without action.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @param {QueueItem} track - The track
+	 * @param {PlayerErrorCode} code - The error code
+	 * @param {string} message - Description of the error
+	 * @param {unknown} [cause] - The underlying error
+	 * @fires ErrorListener
+	 */
+	private handlePlaybackError(
+		audio: PlayerAudio,
+		track: QueueItem,
+		code: PlayerErrorCode,
+		message: string,
+		cause?: unknown,
+	) {
+		if (audio === this.nextAudio) {
+			log.player(`Failed to preload ${track.url}:`, message)
+			this.failedPreload = track
+			this.cancelNext()
+			return
+		}
+		if (audio !== this.currentAudio) return
+		this.cancelRetry()
+
+		const { action: policy, maxRetries, maxConsecutiveFailures } = this.errorPolicy
+		let action: PlayerError['action'] = 'none'
+		if (code !== 'autoplay_blocked' && code !== 'aborted') {
+			if (policy === 'retry' && this.retryCount < maxRetries) action = 'retry'
+			else if (policy === 'stop' || this.consecutiveFailures + 1 >= maxConsecutiveFailures) action = 'stop'
+			else action = 'skip'
+		}
+
+		log.player(`Playback error (${code}) of ${track.url}, action: ${action}`)
+		const error: PlayerError = { code, message, track: this.cloneTrack(track), action, attempt: this.retryCount, cause }
+		this.errorListeners.forEach((listener) => {
+			listener(error)
+		})
+
+		switch (action) {
+			case 'retry':
+				if (this.isPlaying) this.setState('loading')
+				this.scheduleRetry(audio, track)
+				break
+			case 'skip':
+				this.consecutiveFailures++
+				this.skipFailedTrack()
+				break
+			case 'stop':
+				this.consecutiveFailures = 0
+				this.stopPlayback('error')
+				break
+		}
+	}
+
+	/**
+	 * Loads the current track again after the retry delay, doubling with each retry.
+	 * @private
+	 * @param {PlayerAudio} audio - The audio of the track
+	 * @param {QueueItem} track - The track
+	 */
+	private scheduleRetry(audio: PlayerAudio, track: QueueItem) {
+		this.retryCount++
+		const delay = this.errorPolicy.retryDelay * 2 ** (this.retryCount - 1)
+		this.retryTimer = window.setTimeout(() => {
+			this.retryTimer = null
+			if (audio !== this.currentAudio) return
+
+			log.player(`Retrying ${track.url}, attempt ${this.retryCount}`)
+			const source = this.playingSources.get(audio)?.url
+			this.reloadAudio(audio, track, source !== undefined ? Promise.resolve(source) : this.resolveSource(track))
+		}, delay * 1000)
+	}
+
+	/**
+	 * Cancels a pending retry of the current track.
+	 * @private
+	 */
+	private cancelRetry() {
+		if (this.retryTimer !== null) {
+			window.clearTimeout(this.retryTimer)
+			this.retryTimer = null
+		}
+	}
+
+	/**
+	 * Skips the failed current track, or stops playback if nothing follows it.
+	 * @private
+	 */
+	private skipFailedTrack() {
+		if (!this.hasFollowingTrack()) {
+			// The queue didn't end normally, the last track failed
+			log.player('No track after the failed one, stopping playback')
+			this.stopPlayback('error')
+			return
+		}
+		this.skipToNext().catch((error) => {
+			log.player('Failed to play the track after the failed one:', error)
+		})
+	}
+
+	/**
+	 * Schedules the preloaded next track to start at the exact time the current one ends,
+	 * or earlier with scheduled gain ramps when crossfading.
+	 * Only applies to the Web Audio engine, once the next track is decoded and the current one plays.
+	 * @private
+	 */
+	private scheduleGaplessStart() {
+		if (!(this.currentAudio instanceof BufferedAudio) || !(this.nextAudio instanceof BufferedAudio)) return
+		if (!this.nextAudio.ready || this.isStoppingAtTrackEnd()) return
+
+		const endTime = this.currentAudio.endTime
+		if (endTime === null) return
+
+		const fadeDuration = Math.min(
+			this.getCrossfadeDuration(),
+			this.currentAudio.duration / this.playbackRate,
+			this.nextAudio.duration / this.playbackRate,
+		)
+		const startTime = endTime - fadeDuration
+		if (fadeDuration > 0 && this.currentSource && this.nextSource) {
+			applyFade(this.context, this.currentSource.gain, this.crossfade.curve, 'out', startTime, fadeDuration)
+			applyFade(this.context, this.nextSource.gain, this.crossfade.curve, 'in', startTime, fadeDuration)
+		}
+
+		log.player(`Next track scheduled to start at ${startTime}`)
+		this.nextStarted = true
+		this.nextAudio.playAt(startTime).catch((error) => {
+			log.player('Failed to schedule next track:', error)
+		})
+	}
+
+	/**
+	 * Gets the actual queue index based on the current order.
+	 * @private
+	 * @param {number} orderIndex - The index in the order array
+	 * @returns {number} The actual index in the queue array
+	 */
+	private getActualQueueIndex(orderIndex: number): number {
+		// If order array is empty, initialize it
+		if (this.order.length === 0) {
+			this.restoreOriginalOrder()
+		}
+
+		// Return the actual queue index from the order array
+		return this.order[orderIndex] ?? orderIndex
+	}
+
+	/**
+	 * Gets the current playing track from the queue.
+	 * @private
+	 * @returns {QueueItem | undefined} The current playing track
+	 */
+	private getCurrentTrack(): QueueItem | undefined {
+		return this.currentUpNext ?? this.getActualTrack(this.currentPlayingPointer)
+	}
+
+	/**
+	 * Gets the track at a specific position of the play order.
+	 * @private
+	 * @param {number} orderIndex - The index in the order array
+	 * @returns {QueueItem | undefined} The track at that position
+	 */
+	private getActualTrack(orderIndex: number): QueueItem | undefined {
+		return this.queue[this.getActualQueueIndex(orderIndex)]
+	}
+
+	/**
+	 * Copies a track before it enters the queue, generating an ID if it has none.
+	 * @private
+	 * @param {QueueItem} track - The track item provided by the caller
+	 * @returns {QueueItem} The track item stored in the queue
+	 */
+	private prepareTrack = (track: QueueItem): QueueItem => {
+		return { ...track, id: track.id ?? createId('track') }
+	}
+
+	/**
+	 * Deep copies a track for listeners and callers. Its source is shared, resolvers can't be copied.
+	 * @private
+	 * @param {QueueItem} track - The track stored in the queue
+	 * @returns {QueueItem} The copy
+	 */
+	private cloneTrack = (track: QueueItem): QueueItem => {
+		const { source, ...rest } = track
+		const clone = structuredClone(rest)
+		return source ? { ...clone, source } : clone
+	}
+
+	/**
+	 * Deep copies a track for a session snapshot, without its source.
+	 * @private
+	 * @param {QueueItem} track - The track stored in the queue
+	 * @returns {QueueItem} The copy
+	 */
+	private toSnapshotTrack = (track: QueueItem): QueueItem => {
+		const { source: _source, ...rest } = track
+		return structuredClone(rest)
+	}
+
+	/**
+	 * Shuffle the queue using the current shuffle strategy.
+	 * Keeps the current and previous items in place if currently playing.
+	 * @private
+	 */
+	private shuffleQueue() {
+		// if currently playing or current pointer is not in the first item,
+		// the algorithm will keep the current and previous items as is.
+		const shouldKeepPrevious =
+			this.isPlaying || this.currentPlayingPointer > 0 || (!!this.currentAudio && this.currentAudio.currentTime !== 0)
+
+		const startShuffleFrom = shouldKeepPrevious ? this.currentPlayingPointer + 1 : 0
+
+		const keepRemainRange: number[] = []
+		const shuffleRange: number[] = []
+		for (const i in this.queue) {
+			if (parseInt(i, 10) < startShuffleFrom) keepRemainRange.push(parseInt(i, 10))
+			else shuffleRange.push(parseInt(i, 10))
+		}
+
+		// Shuffle the shuffleRange using the shuffle strategy
+		const items = shuffleRange.map((index) => this.queue[index])
+		let permutation = this.shuffleStrategy(items, this.random)
+		if (!this.isPermutation(permutation, items.length)) {
+			log.player('Shuffle strategy returned an invalid order, falling back to uniform shuffle')
+			permutation = uniformShuffle(items, this.random)
+		}
+
+		// Combine the kept items with the shuffled items
+		this.order = [...keepRemainRange, ...permutation.map((index) => shuffleRange[index])]
+
+		log.player('Queue shuffled. New order:', this.order)
+	}
+
+	/**
+	 * Checks whether an array is a permutation of the indexes 0 to length - 1.
+	 * @private
+	 * @param {number[]} permutation - The array to check
+	 * @param {number} length - The expected length
+	 * @returns {boolean} True if the array is a valid permutation
+	 */
+	private isPermutation(permutation: number[], length: number): boolean {
+		if (!Array.isArray(permutation) || permutation.length !== length) return false
+		const seen = new Set<number>()
+		for (const index of permutation) {
+			if (!Number.isInteger(index) || index < 0 || index >= length || seen.has(index)) return false
+			seen.add(index)
+		}
+		return true
+	}
+
+	/**
+	 * Restore the queue to its original order.
+	 * @private
+	 */
+	private restoreOriginalOrder() {
+		// preserve current playing item
+		const currentPlaying = this.order[this.currentPlayingPointer]
+
+		this.order = []
+		for (const i in this.queue) {
+			this.order.push(parseInt(i, 10))
+		}
+
+		// Only adjust currentPlayingPointer if there's active playback
+		// Don't adjust if: no audio exists, or audio exists but hasn't started playing
+		const hasActivePlayback = this.currentAudio && (this.currentAudio.currentTime > 0 || !this.currentAudio.paused)
+
+		if (hasActivePlayback && currentPlaying !== undefined) {
+			// Find the new position of the currently playing track in the restored order
+			this.currentPlayingPointer = this.order.indexOf(currentPlaying)
+			if (this.currentPlayingPointer === -1) {
+				// Fallback to 0 if current track not found (shouldn't happen)
+				this.currentPlayingPointer = 0
+			}
+		}
+		// Otherwise keep currentPlayingPointer as is (typically 0 for no playback)
+
+		log.player('Queue restored to original order')
+	}
+
+	/**
+	 * Handles the end of a track based on the current loop mode.
+	 * @private
+	 */
+	private handleTrackEnd() {
+		// The sleep timer may stop playback with this track
+		if (this.sleepTimer?.type === 'tracks') {
+			this.sleepTimer.tracksRemaining--
+			if (this.sleepTimer.tracksRemaining <= 0) {
+				this.stopForSleep(true).catch((error) => {
+					log.player('Failed to stop playback for the sleep timer:', error)
+				})
+				return
+			}
+			this.notifySleepTimerChange()
+		}
+
+		if (this.loop === 'single_track') {
+			// Single track loop - replay the same track
+			log.player('Looping single track')
+			if (this.currentAudio) {
+				this.currentAudio.currentTime = this.getSlice(this.getCurrentTrack(), this.currentAudio).start
+				this.currentAudio.play()
+			}
+		} else if (!this.hasFollowingTrack()) {
+			// End of queue reached
+			if (this.loop === 'entire_queue') {
+				// Loop entire queue - go back to the first track
+				log.player('Looping entire queue')
+				this.currentPlayingPointer = -1 // Will be incremented to 0 in advanceToNext
+				this.advanceToNext()
+			} else if (this.exhaustionProvider) {
+				// The provider may still add more tracks
+				this.continueAfterExhaustion()
+			} else {
+				// No loop - stop playback
+				log.player('End of queue, stopping playback')
+				this.stopPlayback('ended')
+			}
+		} else {
+			// Normal next track
+			this.advanceToNext()
+		}
+	}
+
+	/**
+	 * Calls the queue exhaustion provider if only a few tracks are left after the current one.
+	 * The provider is called at most once per current track, and never while looping.
+	 * @private
+	 */
+	private checkQueueExhaustion() {
+		if (!this.exhaustionProvider || this.exhaustionRequest || this.loop !== 'off' || !this.currentAudio) return
+
+		const currentId = this.getCurrentTrack()?.id ?? null
+		if (currentId === this.exhaustionRequestedFor) return
+
+		const remaining = this.order.length - 1 - this.currentPlayingPointer + this.upNext.length
+		if (remaining > this.exhaustionThreshold) return
+
+		this.exhaustionRequestedFor = currentId
+		this.exhaustionRequest = this.requestMoreTracks(this.exhaustionProvider).finally(() => {
+			this.exhaustionRequest = null
+		})
+	}
+
+	/**
+	 * Requests more tracks from the queue exhaustion provider and appends them to the queue.
+	 * @private
+	 * @param {QueueExhaustingProvider} provider - The provider to call
+	 * @returns {Promise<void>}
+	 */
+	private async requestMoreTracks(provider: QueueExhaustingProvider) {
+		log.player('Queue is about to run out, requesting more tracks')
+
+		const generation = this.queueGeneration
+		let tracks: QueueItem[]
+		try {
+			tracks = await provider(this.fetchQueue())
+		} catch (error) {
+			log.player('Failed to get more tracks:', error)
+			return
+		}
+		if (generation !== this.queueGeneration) {
+			log.player('Queue was replaced while requesting more tracks, dropping them')
+			return
+		}
+		if (!Array.isArray(tracks) || tracks.length === 0) {
+			log.player('No more tracks provided')
+			return
+		}
+
+		// Append to the end of the queue, even in shuffle mode
+		const operations: QueueDiffOperation[] = []
+		for (const track of tracks) {
+			const prepared: QueueItem = { ...this.prepareTrack(track), autoAdded: true }
+			this.queue.push(prepared)
+			this.order.push(this.order.length)
+			operations.push({ type: 'inserted', position: this.order.length - 1, item: this.cloneTrack(prepared) })
+		}
+		log.player(`${tracks.length} tracks added automatically`)
+		this.notifyQueueChange(operations)
+
+		// The current track may already be within the preload window
+		this.updateNextTrackSchedule()
+	}
+
+	/**
+	 * Continues playback at the end of the queue once the queue exhaustion provider answered.
+	 * Stops playback if no tracks were added.
+	 * @private
+	 * @returns {Promise<void>}
+	 */
+	private async continueAfterExhaustion() {
+		this.checkQueueExhaustion()
+		if (this.exhaustionRequest) await this.exhaustionRequest
+
+		if (this.hasFollowingTrack()) {
+			await this.advanceToNext()
+		} else {
+			log.player('End of queue, stopping playback')
+			this.stopPlayback('ended')
+		}
+	}
+
+	/**
+	 * Updates the next track scheduling based on current playback position.
+	 * Called after seeking to determine if we need to schedule or cancel the next track.
+	 * @private
+	 */
+	private updateNextTrackSchedule() {
+		if (!this.currentAudio) return
 
-		const currentTime = this.currentAudio.currentTime
 		const duration = this.currentAudio.duration
 
 		if (Number.isNaN(duration) || duration <= 0) return
 
-		const timeRemaining = duration - currentTime
-		const halfwayPoint = duration / 2
-
 		// Check if we should schedule the next track
-		const shouldScheduleNext = timeRemaining < 20 || currentTime > halfwayPoint
+		const shouldScheduleNext = this.shouldPreloadNext(this.currentAudio)
 
 		if (shouldScheduleNext && !this.nextAudio) {
 			// We should have next track scheduled but don't - schedule it now
@@ -1127,10 +3913,189 @@ class Player {
 		} else if (!shouldScheduleNext && this.nextAudio) {
 			// We have next track scheduled but shouldn't - cancel it
 			log.player('Canceling next track schedule after seek')
-			this.nextAudio = null
-			this.nextSource = null
+			this.cancelNext()
+		}
+	}
+
+	/**
+	 * Loads the track that takes the place of a removed current track, keeping the play state.
+	 * Stops playback when nothing follows the removed track.
+	 * @private
+	 * @param {boolean} hasFollowing - Whether a track follows the removed one
+	 * @returns {Promise<void>}
+	 */
+	private async replaceRemovedCurrentTrack(hasFollowing: boolean) {
+		const wasPlaying = this.isPlaying
+
+		if (!hasFollowing) {
+			// Release the removed track and stop
+			this.currentAudio?.pause()
+			this.currentSource?.disconnect()
+			this.currentAudio = null
+			this.currentSource = null
+			this.cancelNext()
+			await this.togglePlaying(false)
+			return
+		}
+
+		// Nothing was loaded for the removed track, so there is no audio to replace
+		if (!this.currentAudio) return
+
+		await this.loadCurrentTrack()
+		if (wasPlaying) {
+			await this.startPlay()
+		}
+	}
+
+	/**
+	 * Requests saving the session to the storage adapter.
+	 * Saves are throttled, so frequent calls (e.g. on every progress update) result in one save per second.
+	 * @private
+	 */
+	private requestAutosave() {
+		if (!this.storage || this.autosaveTimer !== null) return
+		this.autosaveTimer = window.setTimeout(this.flushAutosave, 1000)
+	}
+
+	/**
+	 * Saves the session to the storage adapter immediately.
+	 * @private
+	 */
+	private flushAutosave = () => {
+		if (this.autosaveTimer !== null) {
+			window.clearTimeout(this.autosaveTimer)
+			this.autosaveTimer = null
+		}
+		if (!this.storage) return
+
+		this.storage.save(this.exportState()).catch((error) => {
+			log.player('Failed to save player state:', error)
+		})
+	}
+
+	/**
+	 * Gets the pointer of the track that should play after the current one.
+	 * @private
+	 * @returns {number | null} The pointer in the order array, or null if nothing follows
+	 */
+	private getNextPointer(): number | null {
+		if (this.loop === 'single_track') return null
+		if (this.currentPlayingPointer + 1 < this.order.length) return this.currentPlayingPointer + 1
+		// At the end of queue, loop back to the first track if entire queue loop is active
+		if (this.loop === 'entire_queue' && this.queue.length > 0) return 0
+		return null
+	}
+
+	/**
+	 * Gets the track that should play after the current one.
+	 * The first track of the user queue comes before the playback context.
+	 * @private
+	 * @returns {QueueItem | null} The next track, or null if nothing follows
+	 */
+	private getNextItem(): QueueItem | null {
+		if (this.loop === 'single_track') return null
+		if (this.upNext.length > 0) return this.upNext[0]
+
+		const nextPointer = this.getNextPointer()
+		return nextPointer === null ? null : (this.getActualTrack(nextPointer) ?? null)
+	}
+
+	/**
+	 * Checks whether a track follows the current one, in the user queue or the rest of the playback context.
+	 * @private
+	 * @returns {boolean} True if a track follows, without looping back
+	 */
+	private hasFollowingTrack(): boolean {
+		return this.upNext.length > 0 || this.currentPlayingPointer + 1 < this.order.length
+	}
+
+	/**
+	 * Makes the track following the current one current, without loading it.
+	 * The first track of the user queue plays on its own, outside of the playback context.
+	 * Otherwise the context continues after its last track played, looping back under `entire_queue`.
+	 * @private
+	 * @returns {boolean} True if the current track changed, false if nothing follows
+	 */
+	private moveToNextTrack(): boolean {
+		const track = this.upNext.shift()
+		if (track) {
+			this.currentUpNext = track
+			log.player('Playing the next track of Up Next')
+			this.notifyQueueChange([{ type: 'up_next_changed', items: this.fetchUpNext() }])
+			return true
+		}
+
+		if (this.currentPlayingPointer + 1 < this.order.length) {
+			this.currentPlayingPointer++
+		} else if (this.loop === 'entire_queue' && this.order.length > 0) {
+			this.currentPlayingPointer = 0
+		} else {
+			return false
 		}
+		this.currentUpNext = null
+		return true
+	}
+
+	/**
+	 * Inserts a prepared track into the queue and the play order, without moving the pointer.
+	 * @private
+	 * @param {QueueItem} track - The track item, already prepared with an ID
+	 * @param {number} position - The position in the play order to insert at
+	 */
+	private insertIntoQueue(track: QueueItem, position: number) {
+		// In shuffle mode, the original order is kept untouched and the track goes to the end of it
+		const queueIndex = this.shuffle ? this.queue.length : position
+		this.queue.splice(queueIndex, 0, track)
+		this.order = this.order.map((index) => (index >= queueIndex ? index + 1 : index))
+		this.order.splice(position, 0, queueIndex)
+	}
+
+	/**
+	 * Cancels the preloaded next track and releases its audio element.
+	 * @private
+	 */
+	private cancelNext() {
+		if (!this.nextAudio) return
+		if (this.crossfading && this.currentSource) resetGain(this.context, this.currentSource.gain, 1)
+		this.crossfading = false
+		this.nextStarted = false
+		this.nextAudio.pause()
+		this.nextSource?.disconnect()
+		this.nextAudio = null
+		this.nextSource = null
+		this.nextItem = null
+	}
+
+	/**
+	 * Checks whether the preloaded next track still matches the upcoming queue item.
+	 * Called after queue edits; drops a stale preload and schedules the right track instead.
+	 * @private
+	 */
+	private revalidateNextTrack() {
+		if (!this.nextAudio) return
+
+		if (this.getNextItem() === this.nextItem) return
+
+		log.player('Preloaded next track is outdated, rescheduling')
+		this.cancelNext()
+		this.updateNextTrackSchedule()
 	}
 }
 
-export { Player }
+export {
+	Player,
+	Equalizer,
+	createBalanceEffect,
+	createMonoDownmixEffect,
+	LocalStorageAdapter,
+	IndexedDBAdapter,
+	parsePlaylist,
+	serializePlaylist,
+	detectPlaylistFormat,
+	readTags,
+	createSeededRandom,
+	uniformShuffle,
+	artistSpreadShuffle,
+	albumBlockShuffle,
+	weightedShuffle,
+}
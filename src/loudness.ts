@@ -0,0 +1,194 @@
+/** Loudness of the ReplayGain 2.0 reference level, in LUFS */
+const REPLAYGAIN_REFERENCE = -18
+
+/** Duration of a gating block, in seconds (ITU-R BS.1770) */
+const BLOCK_DURATION = 0.4
+
+/** Number of steps a gating block is made of, blocks overlap by 75% */
+const BLOCK_STEPS = 4
+
+/** Absolute gate, in LUFS */
+const ABSOLUTE_GATE = -70
+
+/** Relative gate below the absolute-gated loudness, in LU */
+const RELATIVE_GATE = -10
+
+/** Filter coefficients of a biquad, normalized so a0 is 1 */
+interface Biquad {
+	b0: number
+	b1: number
+	b2: number
+	a1: number
+	a2: number
+}
+
+/**
+ * Computes the two filters of the K-weighting (a high shelf and a high pass) at a sample rate,
+ * following ITU-R BS.1770 as derived by libebur128.
+ * @param {number} sampleRate - The sample rate of the audio
+ * @returns {[Biquad, Biquad]} The shelf and high pass filters
+ */
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+	// Pre-filter, modelling the acoustic effect of the head
+	let f0 = 1681.974450955533
+	const gain = 3.999843853973347
+	let q = 0.7071752369554196
+	let k = Math.tan((Math.PI * f0) / sampleRate)
+	const vh = 10 ** (gain / 20)
+	const vb = vh ** 0.4996667741545416
+	let a0 = 1 + k / q + k * k
+	const shelf: Biquad = {
+		b0: (vh + (vb * k) / q + k * k) / a0,
+		b1: (2 * (k * k - vh)) / a0,
+		b2: (vh - (vb * k) / q + k * k) / a0,
+		a1: (2 * (k * k - 1)) / a0,
+		a2: (1 - k / q + k * k) / a0,
+	}
+
+	// RLB high pass
+	f0 = 38.13547087602444
+	q = 0.5003270373238773
+	k = Math.tan((Math.PI * f0) / sampleRate)
+	a0 = 1 + k / q + k * k
+	const highPass: Biquad = {
+		b0: 1,
+		b1: -2,
+		b2: 1,
+		a1: (2 * (k * k - 1)) / a0,
+		a2: (1 - k / q + k * k) / a0,
+	}
+
+	return [shelf, highPass]
+}
+
+/**
+ * Gets the weight of a channel in the loudness sum: surround channels count more, the LFE channel doesn't count.
+ * @param {number} channel - Index of the channel
+ * @param {number} channelCount - Number of channels of the audio
+ * @returns {number} The weight of the channel
+ */
+function channelWeight(channel: number, channelCount: number): number {
+	if (channelCount < 6) return 1
+	if (channel === 3) return 0
+	return channel >= 4 ? 1.41 : 1
+}
+
+/**
+ * Renders the K-weighted power of decoded audio in an offline audio context, so the filtering runs natively
+ * off the main thread. Every channel is K-weighted, squared and weighted, then the channels are summed.
+ * @param {AudioBuffer} buffer - The decoded audio
+ * @returns {Promise<Float32Array>} The weighted power of every sample, summed over the channels
+ */
+async function renderWeightedPower(buffer: AudioBuffer): Promise<Float32Array> {
+	const context = new OfflineAudioContext(1, buffer.length, buffer.sampleRate)
+	const [shelf, highPass] = kWeighting(buffer.sampleRate)
+
+	const source = context.createBufferSource()
+	source.buffer = buffer
+	const splitter = context.createChannelSplitter(buffer.numberOfChannels)
+	source.connect(splitter)
+
+	for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+		const shelfFilter = context.createIIRFilter([shelf.b0, shelf.b1, shelf.b2], [1, shelf.a1, shelf.a2])
+		const highPassFilter = context.createIIRFilter(
+			[highPass.b0, highPass.b1, highPass.b2],
+			[1, highPass.a1, highPass.a2],
+		)
+		splitter.connect(shelfFilter, channel)
+		shelfFilter.connect(highPassFilter)
+
+		// The filtered signal drives the gain it goes through, squaring it
+		const square = context.createGain()
+		square.gain.value = 0
+		highPassFilter.connect(square)
+		highPassFilter.connect(square.gain)
+
+		const weight = context.createGain()
+		weight.gain.value = channelWeight(channel, buffer.numberOfChannels)
+		square.connect(weight)
+		weight.connect(context.destination)
+	}
+
+	source.start()
+	const rendered = await context.startRendering()
+	return rendered.getChannelData(0)
+}
+
+/**
+ * Measures the integrated loudness (EBU R128 / ITU-R BS.1770) and the sample peak of decoded audio.
+ * The K-weighting is rendered in an offline audio context, the main thread only sums the rendered power.
+ * @param {AudioBuffer} buffer - The decoded audio
+ * @returns {Promise<LoudnessMeasurement>} The loudness of the audio, `-Infinity` for silence
+ */
+async function measureLoudness(buffer: AudioBuffer): Promise<LoudnessMeasurement> {
+	const stepLength = Math.round((buffer.sampleRate * BLOCK_DURATION) / BLOCK_STEPS)
+	const stepCount = Math.floor(buffer.length / stepLength)
+
+	let peak = 0
+	for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+		const samples = buffer.getChannelData(channel)
+		for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]))
+	}
+
+	// Weighted mean square of every step
+	const power = await renderWeightedPower(buffer)
+	const steps = new Float64Array(stepCount)
+	for (let i = 0; i < stepCount * stepLength; i++) {
+		steps[Math.floor(i / stepLength)] += power[i] / stepLength
+	}
+
+	// Overlapping blocks made of consecutive steps
+	const blocks: number[] = []
+	for (let i = 0; i + BLOCK_STEPS <= stepCount; i++) {
+		let power = 0
+		for (let j = 0; j < BLOCK_STEPS; j++) power += steps[i + j]
+		blocks.push(power / BLOCK_STEPS)
+	}
+
+	const loudness = (power: number) => -0.691 + 10 * Math.log10(power)
+	const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+	const absoluteGated = blocks.filter((power) => loudness(power) > ABSOLUTE_GATE)
+	if (absoluteGated.length === 0) return { integratedLoudness: Number.NEGATIVE_INFINITY, peak }
+
+	const threshold = loudness(mean(absoluteGated)) + RELATIVE_GATE
+	const relativeGated = absoluteGated.filter((power) => loudness(power) > threshold)
+	return { integratedLoudness: loudness(mean(relativeGated)), peak }
+}
+
+/**
+ * Computes the gain bringing a track to a target loudness, from its loudness information.
+ * ReplayGain values are preferred over the integrated loudness, falling back to the values of the other mode.
+ * The gain is lowered when the peak would clip.
+ * @param {TrackLoudness} loudness - The loudness information of the track
+ * @param {'track' | 'album'} mode - Whether to prefer the track or the album values
+ * @param {number} targetLoudness - The target loudness in LUFS
+ * @returns {number | null} The gain in dB, or null if the loudness of the track is unknown
+ */
+function computeNormalizationGain(
+	loudness: TrackLoudness,
+	mode: 'track' | 'album',
+	targetLoudness: number,
+): number | null {
+	const replayGain =
+		mode === 'album' ? (loudness.albumGain ?? loudness.trackGain) : (loudness.trackGain ?? loudness.albumGain)
+	const peak =
+		mode === 'album' ? (loudness.albumPeak ?? loudness.trackPeak) : (loudness.trackPeak ?? loudness.albumPeak)
+
+	let gain: number
+	if (replayGain !== undefined) {
+		gain = replayGain + (targetLoudness - REPLAYGAIN_REFERENCE)
+	} else if (loudness.integratedLoudness !== undefined && Number.isFinite(loudness.integratedLoudness)) {
+		gain = targetLoudness - loudness.integratedLoudness
+	} else {
+		return null
+	}
+
+	// Peak protection, the loudest sample may not go over full scale
+	if (peak !== undefined && peak > 0) {
+		gain = Math.min(gain, -20 * Math.log10(peak))
+	}
+	return gain
+}
+
+export { measureLoudness, computeNormalizationGain }
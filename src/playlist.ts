@@ -0,0 +1,575 @@
+/** Number of frames per second in CUE sheet times (`mm:ss:ff`) */
+const CUE_FRAMES_PER_SECOND = 75
+
+/**
+ * Detects the format of a playlist file from its content.
+ * Files without any recognizable header are read as plain M3U, one URL per line.
+ * @param {string} text - The content of the playlist file
+ * @returns {PlaylistFormat} The detected format
+ */
+function detectPlaylistFormat(text: string): PlaylistFormat {
+	const start = stripBom(text).trimStart()
+	if (/^\[playlist\]/i.test(start)) return 'pls'
+	if (start.startsWith('<')) return 'xspf'
+	if (/^\s*FILE\s/im.test(start) && /^\s*TRACK\s/im.test(start)) return 'cue'
+	return 'm3u'
+}
+
+/**
+ * Parses a playlist file into queue items, ready for `Player.replaceQueue`.
+ * Invalid entries are skipped and reported as warnings instead of failing the whole file.
+ * @param {string} text - The content of the playlist file
+ * @param {PlaylistParseOptions} [options] - The format of the file and the URL to resolve relative entries against
+ * @returns {ParsedPlaylist} The title, tracks and warnings of the playlist
+ */
+function parsePlaylist(text: string, options: PlaylistParseOptions = {}): ParsedPlaylist {
+	const format = options.format ?? detectPlaylistFormat(text)
+	switch (format) {
+		case 'pls':
+			return parsePLS(text, options.baseUrl)
+		case 'xspf':
+			return parseXSPF(text, options.baseUrl)
+		case 'cue':
+			return parseCUE(text, options.baseUrl)
+		default:
+			return parseM3U(text, options.baseUrl)
+	}
+}
+
+/**
+ * Writes queue items as a playlist file.
+ * Track slices of a file can only be written to CUE sheets, other formats refer to the whole file.
+ * @param {QueueItem[]} items - The tracks of the playlist, in order
+ * @param {PlaylistFormat} format - The format of the file
+ * @param {PlaylistSerializeOptions} [options] - The title of the playlist
+ * @returns {string} The content of the playlist file
+ */
+function serializePlaylist(items: QueueItem[], format: PlaylistFormat, options: PlaylistSerializeOptions = {}): string {
+	switch (format) {
+		case 'pls':
+			return serializePLS(items, options)
+		case 'xspf':
+			return serializeXSPF(items, options)
+		case 'cue':
+			return serializeCUE(items, options)
+		default:
+			return serializeM3U(items, options)
+	}
+}
+
+/**
+ * Parses an M3U or M3U8 playlist, with the `#EXTINF`, `#PLAYLIST`, `#EXTALB` and `#EXTART` extensions.
+ * @param {string} text - The content of the playlist file
+ * @param {string} [baseUrl] - The URL to resolve relative entries against
+ * @returns {ParsedPlaylist} The parsed playlist
+ */
+function parseM3U(text: string, baseUrl?: string): ParsedPlaylist {
+	const playlist: ParsedPlaylist = { format: 'm3u', items: [], warnings: [] }
+
+	// Information of the next entry, from the directives before it
+	let pending: NonNullable<QueueItem['metadata']> = {}
+
+	splitLines(text).forEach((raw, index) => {
+		const line = raw.trim()
+		const lineNumber = index + 1
+		if (!line) return
+
+		if (line.startsWith('#')) {
+			const [directive, value] = splitDirective(line)
+			switch (directive) {
+				case '#EXTINF': {
+					// #EXTINF:<duration> [attributes],<artist> - <title>
+					const match = /^(-?\d+(?:\.\d+)?)(?:\s+[^,]*)?,(.*)$/.exec(value)
+					if (!match) {
+						playlist.warnings.push({ line: lineNumber, message: 'Invalid #EXTINF directive' })
+						pending = {}
+						return
+					}
+					const duration = Number(match[1])
+					pending = { ...pending, ...splitDisplayTitle(match[2].trim()) }
+					if (duration >= 0) pending.duration = duration
+					return
+				}
+				case '#PLAYLIST':
+					if (value.trim()) playlist.title = value.trim()
+					return
+				case '#EXTALB':
+					pending.album = value.trim() || undefined
+					return
+				case '#EXTART':
+					pending.artist ??= value.trim() || undefined
+					return
+				default:
+					// Comments and unsupported directives
+					return
+			}
+		}
+
+		const url = resolveUrl(line, baseUrl)
+		if (!url) {
+			playlist.warnings.push({ line: lineNumber, message: `Invalid URL: ${line}` })
+		} else {
+			playlist.items.push(createItem(url, pending))
+		}
+		pending = {}
+	})
+
+	return playlist
+}
+
+/**
+ * Writes an M3U8 playlist with `#EXTINF` information.
+ * @param {QueueItem[]} items - The tracks of the playlist
+ * @param {PlaylistSerializeOptions} options - The title of the playlist
+ * @returns {string} The content of the playlist file
+ */
+function serializeM3U(items: QueueItem[], options: PlaylistSerializeOptions): string {
+	const lines = ['#EXTM3U']
+	if (options.title) lines.push(`#PLAYLIST:${singleLine(options.title)}`)
+
+	for (const item of items) {
+		const duration = getDuration(item)
+		const title = [item.metadata?.artist, item.metadata?.title].filter(Boolean).join(' - ')
+		if (title || duration !== undefined) {
+			lines.push(`#EXTINF:${duration !== undefined ? Math.round(duration) : -1},${singleLine(title)}`)
+		}
+		if (item.metadata?.album) lines.push(`#EXTALB:${singleLine(item.metadata.album)}`)
+		lines.push(item.url)
+	}
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Parses a PLS playlist.
+ * @param {string} text - The content of the playlist file
+ * @param {string} [baseUrl] - The URL to resolve relative entries against
+ * @returns {ParsedPlaylist} The parsed playlist
+ */
+function parsePLS(text: string, baseUrl?: string): ParsedPlaylist {
+	const playlist: ParsedPlaylist = { format: 'pls', items: [], warnings: [] }
+
+	// Entries by number, the keys of an entry may come in any order
+	const entries = new Map<number, { line: number; file?: string; title?: string; length?: number }>()
+	splitLines(text).forEach((raw, index) => {
+		const line = raw.trim()
+		const lineNumber = index + 1
+		if (!line || line.startsWith(';') || line.startsWith('[')) return
+
+		const match = /^(File|Title|Length)(\d+)\s*=(.*)$/i.exec(line)
+		if (!match) {
+			if (!/^(NumberOfEntries|Version|X-GNOME-Title)\s*=/i.test(line)) {
+				playlist.warnings.push({ line: lineNumber, message: `Unknown key: ${line}` })
+			}
+			const title = /^X-GNOME-Title\s*=(.*)$/i.exec(line)
+			if (title?.[1].trim()) playlist.title = title[1].trim()
+			return
+		}
+
+		const number = Number(match[2])
+		const entry = entries.get(number) ?? { line: lineNumber }
+		const value = match[3].trim()
+		switch (match[1].toLowerCase()) {
+			case 'file':
+				entry.file = value
+				break
+			case 'title':
+				entry.title = value || undefined
+				break
+			default:
+				entry.length = Number(value)
+		}
+		entries.set(number, entry)
+	})
+
+	for (const [number, entry] of [...entries].sort(([a], [b]) => a - b)) {
+		if (!entry.file) {
+			playlist.warnings.push({ line: entry.line, message: `Entry ${number} has no File key` })
+			continue
+		}
+		const url = resolveUrl(entry.file, baseUrl)
+		if (!url) {
+			playlist.warnings.push({ line: entry.line, message: `Invalid URL: ${entry.file}` })
+			continue
+		}
+		const duration = entry.length !== undefined && entry.length >= 0 ? entry.length : undefined
+		playlist.items.push(createItem(url, { ...splitDisplayTitle(entry.title), duration }))
+	}
+
+	return playlist
+}
+
+/**
+ * Writes a PLS (version 2) playlist.
+ * @param {QueueItem[]} items - The tracks of the playlist
+ * @param {PlaylistSerializeOptions} options - The title of the playlist
+ * @returns {string} The content of the playlist file
+ */
+function serializePLS(items: QueueItem[], options: PlaylistSerializeOptions): string {
+	const lines = ['[playlist]']
+	if (options.title) lines.push(`X-GNOME-Title=${singleLine(options.title)}`)
+
+	items.forEach((item, index) => {
+		const number = index + 1
+		const title = [item.metadata?.artist, item.metadata?.title].filter(Boolean).join(' - ')
+		const duration = getDuration(item)
+		lines.push(`File${number}=${item.url}`)
+		if (title) lines.push(`Title${number}=${singleLine(title)}`)
+		lines.push(`Length${number}=${duration !== undefined ? Math.round(duration) : -1}`)
+	})
+	lines.push(`NumberOfEntries=${items.length}`, 'Version=2')
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Parses an XSPF playlist.
+ * @param {string} text - The content of the playlist file
+ * @param {string} [baseUrl] - The URL to resolve relative entries against
+ * @returns {ParsedPlaylist} The parsed playlist
+ */
+function parseXSPF(text: string, baseUrl?: string): ParsedPlaylist {
+	const playlist: ParsedPlaylist = { format: 'xspf', items: [], warnings: [] }
+
+	const document = new DOMParser().parseFromString(stripBom(text), 'application/xml')
+	const root = document.documentElement
+	if (document.getElementsByTagName('parsererror').length > 0 || root.localName !== 'playlist') {
+		playlist.warnings.push({ message: 'Invalid XSPF document' })
+		return playlist
+	}
+
+	const title = childText(root, 'title')
+	if (title) playlist.title = title
+
+	const tracks = root.getElementsByTagNameNS('*', 'track')
+	Array.from(tracks).forEach((track, index) => {
+		// A track may list several locations of the same resource, the first valid one is used
+		const locations = Array.from(track.children).filter((child) => child.localName === 'location')
+		const url = locations.map((location) => resolveUrl(location.textContent ?? '', baseUrl)).find(Boolean)
+		if (!url) {
+			playlist.warnings.push({ message: `Track ${index + 1} has no valid location` })
+			return
+		}
+
+		const duration = Number(childText(track, 'duration'))
+		const image = childText(track, 'image')
+		const imageUrl = image ? resolveUrl(image, baseUrl) : null
+		playlist.items.push(
+			createItem(url, {
+				title: childText(track, 'title'),
+				artist: childText(track, 'creator'),
+				album: childText(track, 'album'),
+				duration: duration > 0 ? duration / 1000 : undefined,
+				artwork: imageUrl ? [{ src: imageUrl }] : undefined,
+			}),
+		)
+	})
+
+	return playlist
+}
+
+/**
+ * Writes an XSPF playlist.
+ * @param {QueueItem[]} items - The tracks of the playlist
+ * @param {PlaylistSerializeOptions} options - The title of the playlist
+ * @returns {string} The content of the playlist file
+ */
+function serializeXSPF(items: QueueItem[], options: PlaylistSerializeOptions): string {
+	const element = (name: string, value: string | undefined, indent: string) =>
+		value ? [`${indent}<${name}>${escapeXml(value)}</${name}>`] : []
+
+	const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<playlist version="1" xmlns="http://xspf.org/ns/0/">']
+	lines.push(...element('title', options.title, '\t'))
+	lines.push('\t<trackList>')
+	for (const item of items) {
+		const duration = getDuration(item)
+		lines.push(
+			'\t\t<track>',
+			...element('location', item.url, '\t\t\t'),
+			...element('title', item.metadata?.title, '\t\t\t'),
+			...element('creator', item.metadata?.artist, '\t\t\t'),
+			...element('album', item.metadata?.album, '\t\t\t'),
+			...element('duration', duration !== undefined ? String(Math.round(duration * 1000)) : undefined, '\t\t\t'),
+			...element('image', item.metadata?.artwork?.[0]?.src, '\t\t\t'),
+			'\t\t</track>',
+		)
+	}
+	lines.push('\t</trackList>', '</playlist>')
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Parses a CUE sheet. Each track becomes a slice of its file, ending where the next track of the file starts.
+ * @param {string} text - The content of the CUE sheet
+ * @param {string} [baseUrl] - The URL to resolve relative file names against
+ * @returns {ParsedPlaylist} The parsed playlist
+ */
+function parseCUE(text: string, baseUrl?: string): ParsedPlaylist {
+	const playlist: ParsedPlaylist = { format: 'cue', items: [], warnings: [] }
+
+	// Album information, from the commands before the first track
+	let albumTitle: string | undefined
+	let albumPerformer: string | undefined
+
+	let file: string | null = null
+	let track: { line: number; title?: string; performer?: string; start?: number; audio: boolean } | null = null
+	const tracks: { url: string; line: number; title?: string; performer?: string; start?: number }[] = []
+	const finishTrack = () => {
+		if (track?.audio && file) tracks.push({ url: file, ...track })
+		track = null
+	}
+
+	splitLines(text).forEach((raw, index) => {
+		const line = raw.trim()
+		const lineNumber = index + 1
+		if (!line) return
+
+		const [command, ...args] = splitCueArguments(line)
+		switch (command.toUpperCase()) {
+			case 'FILE': {
+				finishTrack()
+				file = args[0] ? resolveUrl(args[0], baseUrl) : null
+				if (!file) playlist.warnings.push({ line: lineNumber, message: `Invalid file: ${args[0] ?? ''}` })
+				return
+			}
+			case 'TRACK':
+				finishTrack()
+				if (!file) {
+					playlist.warnings.push({ line: lineNumber, message: 'Track without a valid file' })
+				} else if (args[1]?.toUpperCase() !== 'AUDIO') {
+					playlist.warnings.push({ line: lineNumber, message: `Skipping non-audio track ${args[0] ?? ''}` })
+				}
+				track = { line: lineNumber, audio: args[1]?.toUpperCase() === 'AUDIO' }
+				return
+			case 'TITLE':
+				if (track) track.title = args[0] || undefined
+				else albumTitle = args[0] || undefined
+				return
+			case 'PERFORMER':
+				if (track) track.performer = args[0] || undefined
+				else albumPerformer = args[0] || undefined
+				return
+			case 'INDEX': {
+				// INDEX 01 is the start of the track, INDEX 00 the start of its pregap
+				if (!track || Number(args[0]) !== 1) return
+				const start = parseCueTime(args[1] ?? '')
+				if (start === null) {
+					playlist.warnings.push({ line: lineNumber, message: `Invalid index time: ${args[1] ?? ''}` })
+				} else {
+					track.start = start
+				}
+				return
+			}
+			default:
+				// REM comments and commands without effect on playback
+				return
+		}
+	})
+	finishTrack()
+
+	if (albumTitle) playlist.title = albumTitle
+	tracks.forEach((entry, index) => {
+		if (entry.start === undefined) {
+			playlist.warnings.push({ line: entry.line, message: 'Track has no INDEX 01' })
+			return
+		}
+
+		// The track ends where the next track of the same file starts
+		const next = tracks[index + 1]
+		const end = next?.url === entry.url ? next.start : undefined
+		const item = createItem(entry.url, {
+			title: entry.title,
+			artist: entry.performer ?? albumPerformer,
+			album: albumTitle,
+			duration: end !== undefined ? end - entry.start : undefined,
+		})
+		item.startTime = entry.start
+		if (end !== undefined) item.endTime = end
+		playlist.items.push(item)
+	})
+
+	return playlist
+}
+
+/**
+ * Writes a CUE sheet. Consecutive tracks of the same file share a `FILE` command.
+ * @param {QueueItem[]} items - The tracks of the playlist
+ * @param {PlaylistSerializeOptions} options - The title of the playlist
+ * @returns {string} The content of the CUE sheet
+ */
+function serializeCUE(items: QueueItem[], options: PlaylistSerializeOptions): string {
+	const lines: string[] = []
+	if (options.title) lines.push(`TITLE ${quoteCue(options.title)}`)
+
+	items.forEach((item, index) => {
+		if (item.url !== items[index - 1]?.url) {
+			const type = /\.mp3(?:[?#]|$)/i.test(item.url) ? 'MP3' : 'WAVE'
+			lines.push(`FILE ${quoteCue(item.url)} ${type}`)
+		}
+		lines.push(`  TRACK ${String(index + 1).padStart(2, '0')} AUDIO`)
+		if (item.metadata?.title) lines.push(`    TITLE ${quoteCue(item.metadata.title)}`)
+		if (item.metadata?.artist) lines.push(`    PERFORMER ${quoteCue(item.metadata.artist)}`)
+		lines.push(`    INDEX 01 ${formatCueTime(item.startTime ?? 0)}`)
+	})
+	return `${lines.join('\n')}\n`
+}
+
+/**
+ * Creates a queue item, leaving out metadata without a value.
+ * @param {string} url - The URL of the track
+ * @param {QueueItem['metadata']} metadata - The metadata of the track
+ * @returns {QueueItem} The queue item
+ */
+function createItem(url: string, metadata: NonNullable<QueueItem['metadata']>): QueueItem {
+	const defined = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined))
+	return Object.keys(defined).length > 0 ? { url, metadata: defined } : { url }
+}
+
+/**
+ * Gets the duration of a track: its known duration, or the duration of its slice.
+ * @param {QueueItem} item - The track
+ * @returns {number | undefined} The duration in seconds, or undefined if unknown
+ */
+function getDuration(item: QueueItem): number | undefined {
+	if (item.metadata?.duration !== undefined) return item.metadata.duration
+	if (item.endTime !== undefined) return item.endTime - (item.startTime ?? 0)
+	return undefined
+}
+
+/**
+ * Resolves a playlist entry to a URL. Windows path separators are turned into URL separators.
+ * @param {string} location - The entry, an absolute URL or a path relative to the playlist
+ * @param {string} [baseUrl] - The URL to resolve relative entries against
+ * @returns {string | null} The URL, or null if the entry is not valid
+ */
+function resolveUrl(location: string, baseUrl?: string): string | null {
+	let value = location.trim()
+	if (!value) return null
+	if (!/^[a-z][a-z\d+.-]*:\/\//i.test(value)) value = value.replaceAll('\\', '/')
+	if (!baseUrl) return value
+
+	try {
+		return new URL(value, baseUrl).href
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Splits a display title of the form "Artist - Title".
+ * @param {string} [display] - The display title
+ * @returns {{title?: string, artist?: string}} The title and artist, the whole text is the title without a separator
+ */
+function splitDisplayTitle(display?: string): { title?: string; artist?: string } {
+	if (!display) return {}
+	const separator = display.indexOf(' - ')
+	if (separator === -1) return { title: display }
+	return { artist: display.slice(0, separator).trim() || undefined, title: display.slice(separator + 3).trim() }
+}
+
+/**
+ * Splits an M3U directive into its name and value.
+ * @param {string} line - The directive line, e.g. `#EXTINF:123,Title`
+ * @returns {[string, string]} The upper case name and the value
+ */
+function splitDirective(line: string): [string, string] {
+	const colon = line.indexOf(':')
+	if (colon === -1) return [line.toUpperCase(), '']
+	return [line.slice(0, colon).toUpperCase(), line.slice(colon + 1)]
+}
+
+/**
+ * Splits a CUE sheet line into its command and arguments, which may be quoted.
+ * @param {string} line - The line
+ * @returns {string[]} The command followed by its arguments
+ */
+function splitCueArguments(line: string): string[] {
+	return Array.from(line.matchAll(/"([^"]*)"|(\S+)/g), (match) => match[1] ?? match[2])
+}
+
+/**
+ * Parses a CUE sheet time (`mm:ss:ff`, 75 frames per second).
+ * @param {string} value - The time
+ * @returns {number | null} The time in seconds, or null if it is not valid
+ */
+function parseCueTime(value: string): number | null {
+	const match = /^(\d+):(\d{1,2}):(\d{1,2})$/.exec(value)
+	if (!match) return null
+	const [minutes, seconds, frames] = match.slice(1).map(Number)
+	if (seconds >= 60 || frames >= CUE_FRAMES_PER_SECOND) return null
+	return minutes * 60 + seconds + frames / CUE_FRAMES_PER_SECOND
+}
+
+/**
+ * Formats a time as a CUE sheet time (`mm:ss:ff`).
+ * @param {number} time - The time in seconds
+ * @returns {string} The CUE sheet time
+ */
+function formatCueTime(time: number): string {
+	const totalFrames = Math.round(Math.max(0, time) * CUE_FRAMES_PER_SECOND)
+	const minutes = Math.floor(totalFrames / (60 * CUE_FRAMES_PER_SECOND))
+	const seconds = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND) % 60
+	const frames = totalFrames % CUE_FRAMES_PER_SECOND
+	return [minutes, seconds, frames].map((value) => String(value).padStart(2, '0')).join(':')
+}
+
+/**
+ * Quotes a CUE sheet argument. CUE sheets have no escaping, so quotes inside are replaced.
+ * @param {string} value - The argument
+ * @returns {string} The quoted argument
+ */
+function quoteCue(value: string): string {
+	return `"${singleLine(value).replaceAll('"', "'")}"`
+}
+
+/**
+ * Gets the trimmed text of the first child element with a name.
+ * @param {Element} element - The parent element
+ * @param {string} name - The local name of the child
+ * @returns {string | undefined} The text, or undefined if there is no such child or it is empty
+ */
+function childText(element: Element, name: string): string | undefined {
+	const child = Array.from(element.children).find((child) => child.localName === name)
+	return child?.textContent?.trim() || undefined
+}
+
+/**
+ * Escapes text for XML content.
+ * @param {string} value - The text
+ * @returns {string} The escaped text
+ */
+function escapeXml(value: string): string {
+	return value
+		.replaceAll('&', '&amp;')
+		.replaceAll('<', '&lt;')
+		.replaceAll('>', '&gt;')
+		.replaceAll('"', '&quot;')
+		.replaceAll("'", '&apos;')
+}
+
+/**
+ * Replaces line breaks, which would end an entry of a line based playlist.
+ * @param {string} value - The text
+ * @returns {string} The text on a single line
+ */
+function singleLine(value: string): string {
+	return value.replace(/[\r\n]+/g, ' ')
+}
+
+/**
+ * Splits text into lines, whatever the line endings.
+ * @param {string} text - The text
+ * @returns {string[]} The lines
+ */
+function splitLines(text: string): string[] {
+	return stripBom(text).split(/\r\n|\r|\n/)
+}
+
+/**
+ * Removes the byte order mark some editors put at the start of UTF-8 files.
+ * @param {string} text - The text
+ * @returns {string} The text without byte order mark
+ */
+function stripBom(text: string): string {
+	return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+}
+
+export { detectPlaylistFormat, parsePlaylist, serializePlaylist }
@@ -0,0 +1,115 @@
+/**
+ * Creates a seedable pseudo-random number generator (mulberry32).
+ * The same seed always produces the same sequence, so shuffles can be reproduced.
+ * @param {number} seed - The seed of the generator
+ * @returns {() => number} A generator returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+	let state = seed >>> 0
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0
+		let t = state
+		t = Math.imul(t ^ (t >>> 15), t | 1)
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+	}
+}
+
+/**
+ * Shuffles an array in place using the Fisher-Yates algorithm.
+ * @param {T[]} array - The array to shuffle
+ * @param {() => number} random - Random number generator
+ * @returns {T[]} The same array, shuffled
+ */
+function fisherYates<T>(array: T[], random: () => number): T[] {
+	for (let i = array.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1))
+		;[array[i], array[j]] = [array[j], array[i]]
+	}
+	return array
+}
+
+/**
+ * Groups item indexes by a key, keeping the original order inside each group.
+ * Items without a key get a group of their own.
+ * @param {QueueItem[]} items - The items to group
+ * @param {(item: QueueItem) => string | undefined} getKey - Gets the group key of an item
+ * @returns {number[][]} The groups of item indexes
+ */
+function groupBy(items: QueueItem[], getKey: (item: QueueItem) => string | undefined): number[][] {
+	const groups = new Map<string, number[]>()
+	const ungrouped: number[][] = []
+	items.forEach((item, index) => {
+		const key = getKey(item)
+		if (key === undefined) {
+			ungrouped.push([index])
+			return
+		}
+		const group = groups.get(key)
+		if (group) group.push(index)
+		else groups.set(key, [index])
+	})
+	return [...groups.values(), ...ungrouped]
+}
+
+/**
+ * Uniform shuffle: every order is equally likely.
+ * @type {ShuffleStrategy}
+ */
+export const uniformShuffle: ShuffleStrategy = (items, random) => {
+	return fisherYates(
+		items.map((_, index) => index),
+		random,
+	)
+}
+
+/**
+ * Artist-spread shuffle: tracks of the same artist (`metadata.artist`) are spread evenly across the queue,
+ * so the same artist rarely plays back to back.
+ * @type {ShuffleStrategy}
+ */
+export const artistSpreadShuffle: ShuffleStrategy = (items, random) => {
+	const placed: { index: number; position: number }[] = []
+
+	for (const group of groupBy(items, (item) => item.metadata?.artist)) {
+		fisherYates(group, random)
+
+		// Place the tracks of the artist at even intervals, with a random offset and a little jitter
+		const interval = 1 / group.length
+		const offset = random() * interval
+		group.forEach((index, i) => {
+			const jitter = (random() - 0.5) * interval * 0.2
+			placed.push({ index, position: offset + i * interval + jitter })
+		})
+	}
+
+	return placed.sort((a, b) => a.position - b.position).map(({ index }) => index)
+}
+
+/**
+ * Album-block shuffle: albums (`metadata.album`) are shuffled as whole blocks,
+ * tracks keep their order inside each album.
+ * @type {ShuffleStrategy}
+ */
+export const albumBlockShuffle: ShuffleStrategy = (items, random) => {
+	return fisherYates(
+		groupBy(items, (item) => item.metadata?.album),
+		random,
+	).flat()
+}
+
+/**
+ * Weighted shuffle: tracks with a higher `weight` tend to play earlier.
+ * Tracks without a weight count as 1, tracks with a weight of 0 or less go to the end.
+ * @type {ShuffleStrategy}
+ */
+export const weightedShuffle: ShuffleStrategy = (items, random) => {
+	// Weighted random sampling without replacement (Efraimidis-Spirakis)
+	const keyed = items.map((item, index) => {
+		const weight = item.weight ?? 1
+		const key = weight > 0 ? random() ** (1 / weight) : random() - 1
+		return { index, key }
+	})
+
+	return keyed.sort((a, b) => b.key - a.key).map(({ index }) => index)
+}
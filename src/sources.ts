@@ -0,0 +1,51 @@
+/** Containers and codecs of lossless audio */
+const LOSSLESS_FORMATS = /flac|alac|wav|aiff|pcm/i
+
+/**
+ * Checks whether the browser can play a source, from its MIME type and codecs.
+ * Sources without a MIME type are assumed playable.
+ * @param {TrackSourceOption} source - The source
+ * @param {(type: string) => CanPlayTypeResult} canPlayType - The `canPlayType` of a media element
+ * @returns {boolean} True unless the browser can't play the source
+ */
+function canPlaySource(source: TrackSourceOption, canPlayType: (type: string) => CanPlayTypeResult): boolean {
+	if (!source.type) return true
+	return canPlayType(source.codecs ? `${source.type}; codecs="${source.codecs}"` : source.type) !== ''
+}
+
+/**
+ * Gets the bitrate a source is ranked by. Lossless sources without a bitrate rank above all others.
+ * @param {TrackSourceOption} source - The source
+ * @returns {number | undefined} The bitrate in kbps, or undefined if unknown
+ */
+function getRank(source: TrackSourceOption): number | undefined {
+	if (source.bitrate !== undefined) return source.bitrate
+	return LOSSLESS_FORMATS.test(`${source.type ?? ''} ${source.codecs ?? ''}`) ? Number.POSITIVE_INFINITY : undefined
+}
+
+/**
+ * Selects the sources of a track the browser can play, in the order to try them.
+ * Sources with an unknown bitrate come after the others, otherwise the order of the list is kept.
+ * @param {TrackSourceOption[]} sources - The sources of the track
+ * @param {QualityPreference} preference - The quality preference
+ * @param {(type: string) => CanPlayTypeResult} canPlayType - The `canPlayType` of a media element
+ * @returns {TrackSourceOption[]} The playable sources, the preferred one first
+ */
+function selectSources(
+	sources: TrackSourceOption[],
+	preference: QualityPreference,
+	canPlayType: (type: string) => CanPlayTypeResult,
+): TrackSourceOption[] {
+	const playable = sources.filter((source) => canPlaySource(source, canPlayType))
+	if (preference === 'auto') return playable
+
+	return playable.sort((a, b) => {
+		const rankA = getRank(a)
+		const rankB = getRank(b)
+		if (rankA === rankB) return 0
+		if (rankA === undefined || rankB === undefined) return rankA === undefined ? 1 : -1
+		return preference === 'data_saver' ? rankA - rankB : rankB - rankA
+	})
+}
+
+export { selectSources }
@@ -0,0 +1,49 @@
+/** Current schema version of player state snapshots */
+export const STATE_VERSION = 2
+
+/**
+ * Parses a player state snapshot, migrating snapshots of older schema versions.
+ * @param {unknown} value - The value to parse, usually loaded from storage
+ * @returns {PlayerStateSnapshot | null} The snapshot in the current schema version, or null if it can't be restored
+ */
+export function parseSnapshot(value: unknown): PlayerStateSnapshot | null {
+	if (typeof value !== 'object' || value === null) return null
+	const snapshot = migrate(value as Record<string, unknown>)
+	if (!snapshot) return null
+
+	if (!Array.isArray(snapshot.queue) || !Array.isArray(snapshot.order)) return null
+	if (!Array.isArray(snapshot.upNext)) return null
+	if (![...snapshot.queue, ...snapshot.upNext].every((item) => typeof item?.url === 'string')) return null
+	if (typeof snapshot.currentPlayingPointer !== 'number' || typeof snapshot.currentTime !== 'number') return null
+	if (typeof snapshot.shuffle !== 'boolean') return null
+	if (snapshot.loop !== 'off' && snapshot.loop !== 'entire_queue' && snapshot.loop !== 'single_track') return null
+	if (snapshot.context !== null && typeof snapshot.context !== 'object') return null
+	if (snapshot.currentFromUpNext !== undefined && typeof snapshot.currentFromUpNext !== 'boolean') return null
+
+	// The order must be a permutation of the queue indexes
+	if (snapshot.order.length !== snapshot.queue.length) return null
+	const seen = new Set<number>()
+	for (const index of snapshot.order) {
+		if (!Number.isInteger(index) || index < 0 || index >= snapshot.queue.length || seen.has(index)) return null
+		seen.add(index)
+	}
+
+	return snapshot
+}
+
+/**
+ * Upgrades a snapshot to the current schema version.
+ * @param {Record<string, unknown>} value - The snapshot of any version
+ * @returns {PlayerStateSnapshot | null} The upgraded snapshot, or null if the version is unknown
+ */
+function migrate(value: Record<string, unknown>): PlayerStateSnapshot | null {
+	switch (value.version) {
+		case 1:
+			// Version 1 had no user queue and no playback context
+			return migrate({ ...value, version: 2, upNext: [], context: null })
+		case STATE_VERSION:
+			return value as unknown as PlayerStateSnapshot
+		default:
+			return null
+	}
+}
@@ -0,0 +1,150 @@
+import log from './debug'
+
+/**
+ * Storage adapter that persists the player session in `localStorage`.
+ * @class LocalStorageAdapter
+ */
+class LocalStorageAdapter implements PlayerStorageAdapter {
+	/** The localStorage key of the snapshot */
+	private key: string
+
+	/**
+	 * Creates a new localStorage adapter.
+	 * @param {string} [key] - The localStorage key to store the snapshot under
+	 * @constructor
+	 */
+	constructor(key = 'msr:player-state') {
+		this.key = key
+	}
+
+	/**
+	 * Loads the saved snapshot.
+	 * @returns {Promise<unknown>} The saved snapshot, or null if nothing was saved or it can't be parsed
+	 */
+	load = async (): Promise<unknown> => {
+		const raw = localStorage.getItem(this.key)
+		if (raw === null) return null
+		try {
+			return JSON.parse(raw)
+		} catch (error) {
+			log.player('Failed to parse saved player state:', error)
+			return null
+		}
+	}
+
+	/**
+	 * Saves a snapshot, replacing the previous one.
+	 * @param {PlayerStateSnapshot} snapshot - The snapshot to save
+	 * @returns {Promise<void>}
+	 */
+	save = async (snapshot: PlayerStateSnapshot): Promise<void> => {
+		localStorage.setItem(this.key, JSON.stringify(snapshot))
+	}
+
+	/**
+	 * Removes the saved snapshot.
+	 * @returns {Promise<void>}
+	 */
+	clear = async (): Promise<void> => {
+		localStorage.removeItem(this.key)
+	}
+}
+
+/**
+ * Storage adapter that persists the player session in IndexedDB.
+ * Suitable for large queues which would exceed the localStorage quota.
+ * @class IndexedDBAdapter
+ */
+class IndexedDBAdapter implements PlayerStorageAdapter {
+	/** Name of the database */
+	private databaseName: string
+	/** Name of the object store */
+	private storeName: string
+	/** Key of the snapshot inside the object store */
+	private key: string
+	/** Opened database connection, created on first use */
+	private database: Promise<IDBDatabase> | null
+
+	/**
+	 * Creates a new IndexedDB adapter.
+	 * @param {string} [databaseName] - Name of the database
+	 * @param {string} [storeName] - Name of the object store
+	 * @param {string} [key] - Key of the snapshot inside the object store
+	 * @constructor
+	 */
+	constructor(databaseName = 'msr', storeName = 'player-state', key = 'session') {
+		this.databaseName = databaseName
+		this.storeName = storeName
+		this.key = key
+		this.database = null
+	}
+
+	/**
+	 * Loads the saved snapshot.
+	 * @returns {Promise<unknown>} The saved snapshot, or null if nothing was saved
+	 */
+	load = async (): Promise<unknown> => {
+		const result = await this.request('readonly', (store) => store.get(this.key))
+		return result ?? null
+	}
+
+	/**
+	 * Saves a snapshot, replacing the previous one.
+	 * @param {PlayerStateSnapshot} snapshot - The snapshot to save
+	 * @returns {Promise<void>}
+	 */
+	save = async (snapshot: PlayerStateSnapshot): Promise<void> => {
+		await this.request('readwrite', (store) => store.put(snapshot, this.key))
+	}
+
+	/**
+	 * Removes the saved snapshot.
+	 * @returns {Promise<void>}
+	 */
+	clear = async (): Promise<void> => {
+		await this.request('readwrite', (store) => store.delete(this.key))
+	}
+
+	/**
+	 * Opens the database, creating the object store if needed.
+	 * @private
+	 * @returns {Promise<IDBDatabase>} The database connection
+	 */
+	private open(): Promise<IDBDatabase> {
+		if (this.database) return this.database
+
+		this.database = new Promise((resolve, reject) => {
+			const request = indexedDB.open(this.databaseName, 1)
+			request.onupgradeneeded = () => {
+				if (!request.result.objectStoreNames.contains(this.storeName)) {
+					request.result.createObjectStore(this.storeName)
+				}
+			}
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => {
+				// Allow retrying on the next call
+				this.database = null
+				reject(request.error)
+			}
+		})
+		return this.database
+	}
+
+	/**
+	 * Runs a single request against the object store.
+	 * @private
+	 * @param {IDBTransactionMode} mode - The transaction mode
+	 * @param {(store: IDBObjectStore) => IDBRequest} operation - Creates the request from the object store
+	 * @returns {Promise<unknown>} The result of the request
+	 */
+	private async request(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+		const database = await this.open()
+		return new Promise((resolve, reject) => {
+			const request = operation(database.transaction(this.storeName, mode).objectStore(this.storeName))
+			request.onsuccess = () => resolve(request.result)
+			request.onerror = () => reject(request.error)
+		})
+	}
+}
+
+export { LocalStorageAdapter, IndexedDBAdapter }
@@ -0,0 +1,844 @@
+import log from './debug'
+
+/** Number of bytes fetched by the first request, enough for the headers of most files */
+const INITIAL_CHUNK_SIZE = 64 * 1024
+
+/** Largest number of bytes read from a file, embedded artwork included */
+const MAX_READ_SIZE = 16 * 1024 * 1024
+
+/** Number of bytes read from the end of Ogg files to find the last page */
+const OGG_TAIL_SIZE = 64 * 1024
+
+/** ReplayGain reference loudness minus the R128 reference loudness of Opus gains, in dB */
+const R128_TO_REPLAYGAIN = 5
+
+/** ID3v2.2 frame IDs, by their ID3v2.3 equivalent */
+const ID3V22_FRAMES: Record<string, string> = {
+	TT2: 'TIT2',
+	TP1: 'TPE1',
+	TAL: 'TALB',
+	TLE: 'TLEN',
+	TXX: 'TXXX',
+	ULT: 'USLT',
+	PIC: 'APIC',
+}
+
+/**
+ * Reads byte ranges of a remote file with HTTP range requests.
+ * Servers ignoring ranges send the whole file, which is only read up to the end of the requested range.
+ * @class RangeReader
+ */
+class RangeReader {
+	/** Size of the file, once known */
+	size: number | null
+	/** Whether the server answers range requests */
+	private ranges: boolean
+	/** The URL of the file */
+	private url: string
+	/** The last bytes read, starting at their offset in the file */
+	private chunk: { offset: number; bytes: Uint8Array } | null
+
+	/**
+	 * Creates a new range reader.
+	 * @param {string} url - The URL of the file
+	 * @constructor
+	 */
+	constructor(url: string) {
+		this.url = url
+		this.size = null
+		this.ranges = true
+		this.chunk = null
+	}
+
+	/**
+	 * Reads bytes of the file.
+	 * @param {number} offset - Offset of the first byte
+	 * @param {number} length - Number of bytes to read, at least `INITIAL_CHUNK_SIZE` are fetched
+	 * @returns {Promise<Uint8Array>} The bytes, fewer than requested at the end of the file
+	 * @throws {DOMException} When the file can't be fetched or the range is too far into it
+	 */
+	read = async (offset: number, length: number): Promise<Uint8Array> => {
+		const chunk = this.chunk
+		if (chunk && offset >= chunk.offset) {
+			const start = offset - chunk.offset
+			const atEnd = this.size !== null && chunk.offset + chunk.bytes.length >= this.size
+			if (start + length <= chunk.bytes.length || atEnd) return chunk.bytes.subarray(start, start + length)
+		}
+
+		const end = offset + Math.max(length, INITIAL_CHUNK_SIZE)
+		if (end > MAX_READ_SIZE && (!this.ranges || length > MAX_READ_SIZE)) {
+			throw new DOMException('Tags are too far into the file', 'NotSupportedError')
+		}
+
+		const response = await fetch(this.url, { headers: { Range: `bytes=${offset}-${end - 1}` } })
+		if (!response.ok) throw new DOMException(`HTTP ${response.status}`, 'NetworkError')
+
+		let bytes: Uint8Array
+		if (response.status === 206) {
+			const total = /\/(\d+)$/.exec(response.headers.get('Content-Range') ?? '')
+			if (total) this.size = Number(total[1])
+			bytes = new Uint8Array(await response.arrayBuffer())
+		} else {
+			// The server sent the whole file
+			this.ranges = false
+			const contentLength = response.headers.get('Content-Length')
+			if (contentLength) this.size = Number(contentLength)
+			bytes = (await readPrefix(response, end)).subarray(offset)
+		}
+
+		this.chunk = { offset, bytes }
+		return bytes.subarray(0, length)
+	}
+
+	/**
+	 * Reads the last bytes of the file.
+	 * @param {number} length - Number of bytes to read
+	 * @returns {Promise<Uint8Array | null>} The bytes, or null if the server doesn't answer range requests
+	 */
+	readEnd = async (length: number): Promise<Uint8Array | null> => {
+		if (!this.ranges || this.size === null) return null
+		const offset = Math.max(0, this.size - length)
+		return this.read(offset, this.size - offset)
+	}
+}
+
+/**
+ * Reads the start of a response body, cancelling the download once enough bytes arrived.
+ * @param {Response} response - The response
+ * @param {number} length - Number of bytes to read
+ * @returns {Promise<Uint8Array>} The bytes, fewer than requested if the body is shorter
+ */
+async function readPrefix(response: Response, length: number): Promise<Uint8Array> {
+	if (!response.body) return new Uint8Array(await response.arrayBuffer()).subarray(0, length)
+
+	const reader = response.body.getReader()
+	const parts: Uint8Array[] = []
+	let received = 0
+	while (received < length) {
+		const { done, value } = await reader.read()
+		if (done) break
+		parts.push(value)
+		received += value.length
+	}
+	reader.cancel().catch(() => {})
+
+	const bytes = new Uint8Array(received)
+	let position = 0
+	for (const part of parts) {
+		bytes.set(part, position)
+		position += part.length
+	}
+	return bytes.subarray(0, length)
+}
+
+/**
+ * Reads the tags embedded in an audio file: ID3v2 and ID3v1, FLAC and Ogg Vorbis comments, MP4 atoms and RIFF INFO.
+ * Only the parts of the file holding the tags are downloaded, with HTTP range requests.
+ * Embedded artwork becomes blob URLs, which stay valid until revoked with `URL.revokeObjectURL`.
+ * @param {string} url - The URL of the audio file
+ * @returns {Promise<TrackTags>} The tags of the file, empty if the format is not supported
+ * @throws {DOMException} When the file can't be fetched
+ */
+async function readTags(url: string): Promise<TrackTags> {
+	const reader = new RangeReader(url)
+	const header = await reader.read(0, 12)
+	const tags: TrackTags = {}
+
+	if (matches(header, 0, 'fLaC')) {
+		await readFlac(reader, 0, tags)
+	} else if (matches(header, 0, 'OggS')) {
+		await readOgg(reader, tags)
+	} else if (matches(header, 4, 'ftyp')) {
+		await readMp4(reader, tags)
+	} else if (matches(header, 0, 'RIFF') && matches(header, 8, 'WAVE')) {
+		await readRiff(reader, tags)
+	} else {
+		// MPEG audio, possibly with an ID3v2 tag in front and an ID3v1 tag at the end
+		let offset = 0
+		if (matches(header, 0, 'ID3')) {
+			const size = 10 + syncsafe(header, 6) + (header[5] & 0x10 ? 10 : 0)
+			parseId3v2(await reader.read(0, size), tags)
+			offset = size
+		}
+		const start = await reader.read(offset, 4)
+		if (matches(start, 0, 'fLaC')) {
+			await readFlac(reader, offset, tags)
+		} else {
+			tags.duration ??= parseMpegDuration(await reader.read(offset, 256), reader.size, offset)
+			const id3v1 = await reader.readEnd(128)
+			if (id3v1) parseId3v1(id3v1, tags)
+		}
+	}
+
+	log.player(`Read tags of ${url}:`, tags)
+	return tags
+}
+
+/**
+ * Parses an ID3v2 tag (versions 2.2, 2.3 and 2.4).
+ * @param {Uint8Array} bytes - The whole tag, header included
+ * @param {TrackTags} tags - The tags to fill
+ */
+function parseId3v2(bytes: Uint8Array, tags: TrackTags) {
+	const version = bytes[3]
+	const flags = bytes[5]
+	if (version < 2 || version > 4) return
+
+	// Version 2.3 unsynchronizes the whole tag, 2.4 each frame
+	let data = bytes.subarray(10)
+	if (flags & 0x80 && version < 4) data = resynchronize(data)
+
+	let position = 0
+	if (flags & 0x40 && version > 2) {
+		// Extended header
+		position = version === 4 ? syncsafe(data, 0) : readUint32(data, 0) + 4
+	}
+
+	const idLength = version === 2 ? 3 : 4
+	const headerLength = version === 2 ? 6 : 10
+	const pictures: { type: number; mime: string; data: Uint8Array }[] = []
+	while (position + headerLength <= data.length) {
+		let id = decodeText(data.subarray(position, position + idLength), 'latin1')
+		if (!/^[A-Z0-9]+$/.test(id)) break // Padding
+
+		const size =
+			version === 2
+				? readUint24(data, position + 3)
+				: version === 4
+					? syncsafe(data, position + 4)
+					: readUint32(data, position + 4)
+		const frameFlags = version === 2 ? 0 : data[position + 9]
+		let frame = data.subarray(position + headerLength, position + headerLength + size)
+		position += headerLength + size
+		if (version === 2) id = ID3V22_FRAMES[id] ?? id
+
+		// Compressed and encrypted frames are skipped
+		if (version === 3 && frameFlags & 0xc0) continue
+		if (version === 4) {
+			if (frameFlags & 0x0c) continue
+			if (frameFlags & 0x01) frame = frame.subarray(4)
+			if (frameFlags & 0x02) frame = resynchronize(frame)
+		} else if (version === 3 && frameFlags & 0x20) {
+			frame = frame.subarray(1)
+		}
+		if (frame.length === 0) continue
+
+		const encoding = frame[0]
+		switch (id) {
+			case 'TIT2':
+				tags.title ??= readId3Text(frame.subarray(1), encoding)
+				break
+			case 'TPE1':
+				tags.artist ??= readId3Text(frame.subarray(1), encoding)
+				break
+			case 'TALB':
+				tags.album ??= readId3Text(frame.subarray(1), encoding)
+				break
+			case 'TLEN': {
+				const length = Number(readId3Text(frame.subarray(1), encoding))
+				if (length > 0) tags.duration ??= length / 1000
+				break
+			}
+			case 'TXXX': {
+				const [description, end] = readId3String(frame, 1, encoding)
+				applyLoudnessField(tags, description, readId3Text(frame.subarray(end), encoding) ?? '')
+				break
+			}
+			case 'USLT': {
+				const [, end] = readId3String(frame, 4, encoding)
+				tags.lyrics ??= readId3Text(frame.subarray(end), encoding)
+				break
+			}
+			case 'APIC': {
+				// Version 2.2 has an image format instead of a MIME type
+				const format = decodeText(frame.subarray(1, 4), 'latin1').toUpperCase()
+				const [mime, mimeEnd] =
+					version === 2 ? [format === 'PNG' ? 'image/png' : 'image/jpeg', 4] : readId3String(frame, 1, 0)
+				const [, end] = readId3String(frame, mimeEnd + 1, encoding)
+				pictures.push({ type: frame[mimeEnd], mime, data: frame.subarray(end) })
+				break
+			}
+		}
+	}
+
+	addPictures(tags, pictures)
+}
+
+/**
+ * Parses an ID3v1 tag, filling the values missing from other tags.
+ * @param {Uint8Array} bytes - The last 128 bytes of the file
+ * @param {TrackTags} tags - The tags to fill
+ */
+function parseId3v1(bytes: Uint8Array, tags: TrackTags) {
+	if (bytes.length < 128 || !matches(bytes, 0, 'TAG')) return
+	const field = (start: number) => {
+		const value = bytes.subarray(start, start + 30)
+		const end = value.indexOf(0)
+		return decodeText(end === -1 ? value : value.subarray(0, end), 'latin1').trim() || undefined
+	}
+	tags.title ??= field(3)
+	tags.artist ??= field(33)
+	tags.album ??= field(63)
+}
+
+/**
+ * Computes the duration of MPEG audio from the Xing or Info header of its first frame,
+ * or estimates it from the bitrate of the first frame.
+ * @param {Uint8Array} bytes - The start of the first frame
+ * @param {number | null} fileSize - The size of the file
+ * @param {number} offset - The offset of the first frame in the file
+ * @returns {number | undefined} The duration in seconds, or undefined if unknown
+ */
+function parseMpegDuration(bytes: Uint8Array, fileSize: number | null, offset: number): number | undefined {
+	if (bytes.length < 4 || bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) return undefined
+
+	const versionBits = (bytes[1] >> 3) & 0x03 // 0: MPEG 2.5, 2: MPEG 2, 3: MPEG 1
+	const layerBits = (bytes[1] >> 1) & 0x03 // 1: layer III, 2: layer II, 3: layer I
+	const bitrateIndex = bytes[2] >> 4
+	const sampleRateIndex = (bytes[2] >> 2) & 0x03
+	const mono = bytes[3] >> 6 === 3
+	if (versionBits === 1 || layerBits === 0 || sampleRateIndex === 3) return undefined
+
+	const sampleRate = [44100, 48000, 32000][sampleRateIndex] / (versionBits === 3 ? 1 : versionBits === 2 ? 2 : 4)
+	const samplesPerFrame = layerBits === 3 ? 384 : layerBits === 2 || versionBits === 3 ? 1152 : 576
+
+	// Xing (VBR) or Info (CBR) header with the number of frames
+	const xingOffset = versionBits === 3 ? (mono ? 21 : 36) : mono ? 13 : 21
+	if (matches(bytes, xingOffset, 'Xing') || matches(bytes, xingOffset, 'Info')) {
+		if (readUint32(bytes, xingOffset + 4) & 0x01) {
+			return (readUint32(bytes, xingOffset + 8) * samplesPerFrame) / sampleRate
+		}
+	}
+
+	// Constant bitrate estimate, layer III only
+	if (layerBits !== 1 || fileSize === null) return undefined
+	const bitrates =
+		versionBits === 3
+			? [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+			: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+	const bitrate = bitrates[bitrateIndex]
+	return bitrate ? ((fileSize - offset) * 8) / (bitrate * 1000) : undefined
+}
+
+/**
+ * Reads the metadata blocks of a FLAC file.
+ * @param {RangeReader} reader - The reader of the file
+ * @param {number} offset - Offset of the `fLaC` marker
+ * @param {TrackTags} tags - The tags to fill
+ * @returns {Promise<void>}
+ */
+async function readFlac(reader: RangeReader, offset: number, tags: TrackTags) {
+	const pictures: { type: number; mime: string; data: Uint8Array }[] = []
+	let position = offset + 4
+	let last = false
+	while (!last) {
+		const header = await reader.read(position, 4)
+		if (header.length < 4) break
+		last = (header[0] & 0x80) !== 0
+		const type = header[0] & 0x7f
+		const length = readUint24(header, 1)
+		position += 4
+
+		if (type === 0 || type === 4 || type === 6) {
+			const block = await reader.read(position, length)
+			if (type === 0) {
+				// STREAMINFO
+				const sampleRate = (block[10] << 12) | (block[11] << 4) | (block[12] >> 4)
+				const samples = (block[13] & 0x0f) * 2 ** 32 + readUint32(block, 14)
+				if (sampleRate > 0 && samples > 0) tags.duration ??= samples / sampleRate
+			} else if (type === 4) {
+				parseVorbisComment(block, tags, pictures)
+			} else {
+				const picture = parseFlacPicture(block)
+				if (picture) pictures.push(picture)
+			}
+		}
+		position += length
+	}
+	addPictures(tags, pictures)
+}
+
+/**
+ * Reads the comment header and the duration of an Ogg Vorbis or Opus file.
+ * @param {RangeReader} reader - The reader of the file
+ * @param {TrackTags} tags - The tags to fill
+ * @returns {Promise<void>}
+ */
+async function readOgg(reader: RangeReader, tags: TrackTags) {
+	// Collect the first two packets: identification and comment headers
+	const packets: Uint8Array[] = []
+	let packet: Uint8Array[] = []
+	let position = 0
+	while (packets.length < 2) {
+		const header = await reader.read(position, 27)
+		if (header.length < 27 || !matches(header, 0, 'OggS')) return
+		const segmentTable = await reader.read(position + 27, header[26])
+		const bodyLength = segmentTable.reduce((sum, size) => sum + size, 0)
+		const body = await reader.read(position + 27 + header[26], bodyLength)
+		position += 27 + header[26] + bodyLength
+
+		let start = 0
+		for (const size of segmentTable) {
+			packet.push(body.subarray(start, start + size))
+			start += size
+			// A segment shorter than 255 bytes ends the packet
+			if (size < 255) {
+				packets.push(concat(packet))
+				packet = []
+				if (packets.length === 2) break
+			}
+		}
+	}
+
+	const [identification, comments] = packets
+	let sampleRate: number
+	let preSkip = 0
+	if (matches(identification, 0, 'OpusHead')) {
+		sampleRate = 48000
+		preSkip = identification[10] | (identification[11] << 8)
+		if (matches(comments, 0, 'OpusTags')) parseVorbisComment(comments.subarray(8), tags, [])
+	} else if (matches(identification, 1, 'vorbis')) {
+		sampleRate = readUint32LE(identification, 12)
+		if (matches(comments, 1, 'vorbis')) parseVorbisComment(comments.subarray(7), tags, [])
+	} else {
+		return
+	}
+
+	// The granule position of the last page is the number of samples
+	const tail = await reader.readEnd(OGG_TAIL_SIZE)
+	if (!tail || sampleRate <= 0) return
+	for (let i = tail.length - 27; i >= 0; i--) {
+		if (!matches(tail, i, 'OggS')) continue
+		const granule = readUint32LE(tail, i + 6) + readUint32LE(tail, i + 10) * 2 ** 32
+		if (granule > preSkip) tags.duration ??= (granule - preSkip) / sampleRate
+		break
+	}
+}
+
+/**
+ * Parses a Vorbis comment block, shared by FLAC, Ogg Vorbis and Opus.
+ * @param {Uint8Array} bytes - The comment block, starting at the vendor string
+ * @param {TrackTags} tags - The tags to fill
+ * @param {{type: number, mime: string, data: Uint8Array}[]} pictures - Pictures found in the comments are added to it
+ */
+function parseVorbisComment(
+	bytes: Uint8Array,
+	tags: TrackTags,
+	pictures: { type: number; mime: string; data: Uint8Array }[],
+) {
+	let position = 4 + readUint32LE(bytes, 0)
+	const count = readUint32LE(bytes, position)
+	position += 4
+	for (let i = 0; i < count && position + 4 <= bytes.length; i++) {
+		const length = readUint32LE(bytes, position)
+		const comment = decodeText(bytes.subarray(position + 4, position + 4 + length), 'utf-8')
+		position += 4 + length
+
+		const separator = comment.indexOf('=')
+		if (separator === -1) continue
+		const key = comment.slice(0, separator).toUpperCase()
+		const value = comment.slice(separator + 1)
+		switch (key) {
+			case 'TITLE':
+				tags.title ??= value || undefined
+				break
+			case 'ARTIST':
+				tags.artist ??= value || undefined
+				break
+			case 'ALBUM':
+				tags.album ??= value || undefined
+				break
+			case 'LYRICS':
+			case 'UNSYNCEDLYRICS':
+				tags.lyrics ??= value || undefined
+				break
+			case 'METADATA_BLOCK_PICTURE': {
+				const picture = parseFlacPicture(Uint8Array.from(atob(value), (char) => char.charCodeAt(0)))
+				if (picture) pictures.push(picture)
+				break
+			}
+			case 'R128_TRACK_GAIN':
+			case 'R128_ALBUM_GAIN': {
+				// Q7.8 fixed point, relative to -23 LUFS
+				const gain = Number(value) / 256 + R128_TO_REPLAYGAIN
+				if (!Number.isFinite(gain)) break
+				tags.loudness ??= {}
+				if (key === 'R128_TRACK_GAIN') tags.loudness.trackGain ??= gain
+				else tags.loudness.albumGain ??= gain
+				break
+			}
+			default:
+				applyLoudnessField(tags, key, value)
+		}
+	}
+}
+
+/**
+ * Parses a FLAC picture block.
+ * @param {Uint8Array} bytes - The picture block
+ * @returns {{type: number, mime: string, data: Uint8Array} | null} The picture, or null if the block is truncated
+ */
+function parseFlacPicture(bytes: Uint8Array): { type: number; mime: string; data: Uint8Array } | null {
+	if (bytes.length < 32) return null
+	const type = readUint32(bytes, 0)
+	const mimeLength = readUint32(bytes, 4)
+	const mime = decodeText(bytes.subarray(8, 8 + mimeLength), 'latin1')
+	let position = 8 + mimeLength
+	position += 4 + readUint32(bytes, position) // Description
+	position += 16 // Width, height, color depth and number of colors
+	const length = readUint32(bytes, position)
+	const data = bytes.subarray(position + 4, position + 4 + length)
+	return data.length === length ? { type, mime, data } : null
+}
+
+/**
+ * Reads the `moov` atom of an MP4 file: its duration and iTunes metadata.
+ * @param {RangeReader} reader - The reader of the file
+ * @param {TrackTags} tags - The tags to fill
+ * @returns {Promise<void>}
+ */
+async function readMp4(reader: RangeReader, tags: TrackTags) {
+	// Find the moov atom among the top level atoms, it may come after the media data
+	let position = 0
+	let moov: Uint8Array | null = null
+	while (reader.size === null || position < reader.size) {
+		const header = await reader.read(position, 16)
+		if (header.length < 8) return
+		const [type, size, headerLength] = readAtomHeader(header, 0)
+		if (type === 'moov') {
+			moov = (await reader.read(position, size || MAX_READ_SIZE)).subarray(headerLength)
+			break
+		}
+		if (size === 0) return // The atom extends to the end of the file
+		position += size
+	}
+	if (!moov) return
+
+	const mvhd = findAtom(moov, ['mvhd'])
+	if (mvhd) {
+		// Version 1 has 64 bit times
+		const timescale = mvhd[0] === 1 ? readUint32(mvhd, 20) : readUint32(mvhd, 12)
+		const duration = mvhd[0] === 1 ? readUint32(mvhd, 24) * 2 ** 32 + readUint32(mvhd, 28) : readUint32(mvhd, 16)
+		if (timescale > 0 && duration > 0) tags.duration ??= duration / timescale
+	}
+
+	// The meta atom is a full box, with 4 bytes of version and flags before its children
+	const meta = findAtom(moov, ['udta', 'meta'])
+	const ilst = meta ? findAtom(meta.subarray(4), ['ilst']) : null
+	if (!ilst) return
+
+	const pictures: { type: number; mime: string; data: Uint8Array }[] = []
+	forEachAtom(ilst, (type, item) => {
+		if (type === '----') {
+			// Freeform item, e.g. ----:com.apple.iTunes:replaygain_track_gain
+			const name = findAtom(item, ['name'])
+			const data = findAtom(item, ['data'])
+			if (name && data)
+				applyLoudnessField(tags, decodeText(name.subarray(4), 'utf-8'), decodeText(data.subarray(8), 'utf-8'))
+			return
+		}
+
+		forEachAtom(item, (childType, data) => {
+			if (childType !== 'data') return
+			const dataType = readUint32(data, 0) & 0xffffff
+			const value = data.subarray(8)
+			const text = () => decodeText(value, 'utf-8') || undefined
+			switch (type) {
+				case '©nam':
+					tags.title ??= text()
+					break
+				case '©ART':
+					tags.artist ??= text()
+					break
+				case '©alb':
+					tags.album ??= text()
+					break
+				case '©lyr':
+					tags.lyrics ??= text()
+					break
+				case 'covr':
+					pictures.push({ type: 3, mime: dataType === 14 ? 'image/png' : 'image/jpeg', data: value })
+					break
+			}
+		})
+	})
+	addPictures(tags, pictures)
+}
+
+/**
+ * Reads the header of an MP4 atom.
+ * @param {Uint8Array} bytes - The bytes containing the atom
+ * @param {number} offset - Offset of the atom
+ * @returns {[string, number, number]} The type, the size including the header (0 up to the end of the file) and the header length
+ */
+function readAtomHeader(bytes: Uint8Array, offset: number): [string, number, number] {
+	const size = readUint32(bytes, offset)
+	const type = decodeText(bytes.subarray(offset + 4, offset + 8), 'latin1')
+	if (size === 1) return [type, readUint32(bytes, offset + 8) * 2 ** 32 + readUint32(bytes, offset + 12), 16]
+	return [type, size, 8]
+}
+
+/**
+ * Calls a function for each atom inside a parent atom.
+ * @param {Uint8Array} bytes - The content of the parent atom
+ * @param {(type: string, content: Uint8Array) => void} callback - Called with the type and the content of each atom
+ */
+function forEachAtom(bytes: Uint8Array, callback: (type: string, content: Uint8Array) => void) {
+	let position = 0
+	while (position + 8 <= bytes.length) {
+		const [type, size, headerLength] = readAtomHeader(bytes, position)
+		const end = size === 0 ? bytes.length : position + size
+		if (end <= position) return
+		callback(type, bytes.subarray(position + headerLength, end))
+		position = end
+	}
+}
+
+/**
+ * Finds a nested atom by its path.
+ * @param {Uint8Array} bytes - The content of the atom to search in
+ * @param {string[]} path - The types of the nested atoms
+ * @returns {Uint8Array | null} The content of the atom, or null if not found
+ */
+function findAtom(bytes: Uint8Array, path: string[]): Uint8Array | null {
+	const found: Uint8Array[] = []
+	forEachAtom(bytes, (type, content) => {
+		if (type === path[0]) found.push(content)
+	})
+	if (found.length === 0) return null
+	return path.length === 1 ? found[0] : findAtom(found[0], path.slice(1))
+}
+
+/**
+ * Reads the chunks of a RIFF WAVE file: its duration, INFO list and ID3 chunk.
+ * @param {RangeReader} reader - The reader of the file
+ * @param {TrackTags} tags - The tags to fill
+ * @returns {Promise<void>}
+ */
+async function readRiff(reader: RangeReader, tags: TrackTags) {
+	let position = 12
+	let byteRate = 0
+	while (reader.size === null || position < reader.size) {
+		const header = await reader.read(position, 8)
+		if (header.length < 8) return
+		const id = decodeText(header.subarray(0, 4), 'latin1')
+		const size = readUint32LE(header, 4)
+		const content = position + 8
+
+		if (id === 'fmt ') {
+			byteRate = readUint32LE(await reader.read(content, 16), 8)
+		} else if (id === 'data') {
+			if (byteRate > 0) tags.duration ??= size / byteRate
+		} else if (id === 'LIST') {
+			const list = await reader.read(content, size)
+			if (matches(list, 0, 'INFO')) parseRiffInfo(list.subarray(4), tags)
+		} else if (id === 'id3 ' || id === 'ID3 ') {
+			parseId3v2(await reader.read(content, size), tags)
+		}
+
+		// Chunks are padded to an even size
+		position = content + size + (size % 2)
+	}
+}
+
+/**
+ * Parses the sub-chunks of a RIFF INFO list.
+ * @param {Uint8Array} bytes - The content of the list, after the `INFO` type
+ * @param {TrackTags} tags - The tags to fill
+ */
+function parseRiffInfo(bytes: Uint8Array, tags: TrackTags) {
+	let position = 0
+	while (position + 8 <= bytes.length) {
+		const id = decodeText(bytes.subarray(position, position + 4), 'latin1')
+		const size = readUint32LE(bytes, position + 4)
+		const value = bytes.subarray(position + 8, position + 8 + size)
+		const end = value.indexOf(0)
+		const text = decodeText(end === -1 ? value : value.subarray(0, end), 'utf-8').trim() || undefined
+		position += 8 + size + (size % 2)
+
+		if (id === 'INAM') tags.title ??= text
+		else if (id === 'IART') tags.artist ??= text
+		else if (id === 'IPRD') tags.album ??= text
+	}
+}
+
+/**
+ * Sets a ReplayGain value from a tag field, if the field is one.
+ * @param {TrackTags} tags - The tags to fill
+ * @param {string} name - The name of the field, e.g. `REPLAYGAIN_TRACK_GAIN`
+ * @param {string} value - The value of the field, e.g. `-6.5 dB`
+ */
+function applyLoudnessField(tags: TrackTags, name: string, value: string) {
+	const field = (
+		{
+			REPLAYGAIN_TRACK_GAIN: 'trackGain',
+			REPLAYGAIN_TRACK_PEAK: 'trackPeak',
+			REPLAYGAIN_ALBUM_GAIN: 'albumGain',
+			REPLAYGAIN_ALBUM_PEAK: 'albumPeak',
+		} as const
+	)[name.toUpperCase()]
+	const number = Number.parseFloat(value)
+	if (!field || !Number.isFinite(number)) return
+	tags.loudness ??= {}
+	tags.loudness[field] ??= number
+}
+
+/**
+ * Adds pictures to the artwork of the tags as blob URLs, front covers first.
+ * @param {TrackTags} tags - The tags to fill
+ * @param {{type: number, mime: string, data: Uint8Array}[]} pictures - The pictures, with their ID3 picture type
+ */
+function addPictures(tags: TrackTags, pictures: { type: number; mime: string; data: Uint8Array }[]) {
+	if (tags.artwork || pictures.length === 0) return
+	tags.artwork = [...pictures]
+		.sort((a, b) => Number(b.type === 3) - Number(a.type === 3))
+		.map((picture) => {
+			const mime = picture.mime.toLowerCase()
+			const type =
+				mime === 'image/png' ? 'image/png' : mime === 'image/jpeg' || mime === 'image/jpg' ? 'image/jpeg' : undefined
+			const src = URL.createObjectURL(new Blob([picture.data.slice()], { type: type ?? picture.mime }))
+			return type ? { src, type } : { src }
+		})
+}
+
+/**
+ * Reads a null terminated ID3 string.
+ * @param {Uint8Array} bytes - The frame
+ * @param {number} offset - Offset of the string
+ * @param {number} encoding - The ID3 text encoding
+ * @returns {[string, number]} The string and the offset after its terminator
+ */
+function readId3String(bytes: Uint8Array, offset: number, encoding: number): [string, number] {
+	const wide = encoding === 1 || encoding === 2
+	let end = offset
+	while (end < bytes.length && !(bytes[end] === 0 && (!wide || bytes[end + 1] === 0))) end += wide ? 2 : 1
+	const text = readId3Text(bytes.subarray(offset, end), encoding) ?? ''
+	return [text, Math.min(bytes.length, end + (wide ? 2 : 1))]
+}
+
+/**
+ * Decodes ID3 text in one of its encodings, dropping terminators.
+ * @param {Uint8Array} bytes - The text
+ * @param {number} encoding - The ID3 text encoding: ISO-8859-1, UTF-16 with BOM, UTF-16BE or UTF-8
+ * @returns {string | undefined} The text, or undefined if empty
+ */
+function readId3Text(bytes: Uint8Array, encoding: number): string | undefined {
+	let text: string
+	if (encoding === 1 || encoding === 2) {
+		const bigEndian = encoding === 2 || (bytes[0] === 0xfe && bytes[1] === 0xff)
+		text = decodeText(bytes, bigEndian ? 'utf-16be' : 'utf-16le')
+	} else {
+		text = decodeText(bytes, encoding === 3 ? 'utf-8' : 'latin1')
+	}
+	// Multiple values are separated by null characters, the first one is kept
+	return (
+		text
+			.replace(/^\uFEFF/, '')
+			.split('\0')[0]
+			.trim() || undefined
+	)
+}
+
+/**
+ * Removes the ID3 unsynchronization scheme, which inserts a zero byte after every 0xFF byte.
+ * @param {Uint8Array} bytes - The unsynchronized bytes
+ * @returns {Uint8Array} The original bytes
+ */
+function resynchronize(bytes: Uint8Array): Uint8Array {
+	const result: number[] = []
+	for (let i = 0; i < bytes.length; i++) {
+		result.push(bytes[i])
+		if (bytes[i] === 0xff && bytes[i + 1] === 0) i++
+	}
+	return Uint8Array.from(result)
+}
+
+/**
+ * Concatenates byte arrays.
+ * @param {Uint8Array[]} parts - The byte arrays
+ * @returns {Uint8Array} The concatenated bytes
+ */
+function concat(parts: Uint8Array[]): Uint8Array {
+	if (parts.length === 1) return parts[0]
+	const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+	let position = 0
+	for (const part of parts) {
+		bytes.set(part, position)
+		position += part.length
+	}
+	return bytes
+}
+
+/**
+ * Checks whether bytes contain an ASCII marker at an offset.
+ * @param {Uint8Array} bytes - The bytes
+ * @param {number} offset - The offset of the marker
+ * @param {string} marker - The marker
+ * @returns {boolean} True if the marker is there
+ */
+function matches(bytes: Uint8Array, offset: number, marker: string): boolean {
+	if (offset + marker.length > bytes.length) return false
+	for (let i = 0; i < marker.length; i++) {
+		if (bytes[offset + i] !== marker.charCodeAt(i)) return false
+	}
+	return true
+}
+
+/**
+ * Decodes text, replacing invalid sequences.
+ * @param {Uint8Array} bytes - The encoded text
+ * @param {string} encoding - The encoding
+ * @returns {string} The text
+ */
+function decodeText(bytes: Uint8Array, encoding: 'latin1' | 'utf-8' | 'utf-16le' | 'utf-16be'): string {
+	return new TextDecoder(encoding).decode(bytes)
+}
+
+/**
+ * Reads a 28 bit ID3 syncsafe integer, made of 4 bytes of 7 bits.
+ * @param {Uint8Array} bytes - The bytes
+ * @param {number} offset - Offset of the integer
+ * @returns {number} The integer
+ */
+function syncsafe(bytes: Uint8Array, offset: number): number {
+	return (
+		((bytes[offset] & 0x7f) << 21) |
+		((bytes[offset + 1] & 0x7f) << 14) |
+		((bytes[offset + 2] & 0x7f) << 7) |
+		(bytes[offset + 3] & 0x7f)
+	)
+}
+
+/**
+ * Reads a big endian 24 bit integer.
+ * @param {Uint8Array} bytes - The bytes
+ * @param {number} offset - Offset of the integer
+ * @returns {number} The integer
+ */
+function readUint24(bytes: Uint8Array, offset: number): number {
+	return (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2]
+}
+
+/**
+ * Reads a big endian 32 bit integer.
+ * @param {Uint8Array} bytes - The bytes
+ * @param {number} offset - Offset of the integer
+ * @returns {number} The integer, 0 past the end of the bytes
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+	if (offset + 4 > bytes.length) return 0
+	return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0)
+}
+
+/**
+ * Reads a little endian 32 bit integer.
+ * @param {Uint8Array} bytes - The bytes
+ * @param {number} offset - Offset of the integer
+ * @returns {number} The integer, 0 past the end of the bytes
+ */
+function readUint32LE(bytes: Uint8Array, offset: number): number {
+	if (offset + 4 > bytes.length) return 0
+	return new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0, true)
+}
+
+export { readTags }
@@ -3,9 +3,51 @@ declare global {
 	 * An object represent a track inside the queue.
 	 */
 	interface QueueItem {
+		/** Unique identifier of the track inside the queue.
+		 * Generated by the player when the track is added without one.
+		 */
+		id?: string
+
 		/** The URL of the audio track. */
 		url: string
 
+		/** Optional source played instead of `url`: a `Blob` or `File`, or a resolver returning a fresh URL,
+		 * e.g. for signed CDN URLs which expire. `url` still identifies the track, e.g. for caches.
+		 * Sources are not part of session snapshots, restored tracks play from `url`.
+		 */
+		source?: Blob | TrackSourceResolver
+
+		/** Optional alternative encodings of the track, played instead of `url`.
+		 * The player picks the first one the browser can play, following the quality preference,
+		 * and falls back to the next one when it fails. Ignored when `source` is set.
+		 */
+		sources?: TrackSourceOption[]
+
+		/** Optional start of the track inside the file, in seconds.
+		 * Together with `endTime`, makes the track a slice of a longer file, e.g. a DJ set or a full album.
+		 * Positions and durations reported by the player are relative to the slice.
+		 */
+		startTime?: number
+
+		/** Optional end of the track inside the file, in seconds. Defaults to the end of the file.
+		 * A following track with the same URL starting at this time plays through without reloading.
+		 */
+		endTime?: number
+
+		/** Optional chapters of the track, sorted by start time */
+		chapters?: TrackChapter[]
+
+		/** Whether the track was added automatically by the queue exhaustion provider,
+		 * rather than queued by the user. Set by the player.
+		 */
+		autoAdded?: boolean
+
+		/** Optional weight for the weighted shuffle strategy. Defaults to 1, higher plays earlier */
+		weight?: number
+
+		/** Optional loudness information of the track, used by loudness normalization */
+		loudness?: TrackLoudness
+
 		/** Optional metadata information about the track.
 		 * Generally used for browser `media.session` reporting and
 		 * operating system control.
@@ -14,6 +56,10 @@ declare global {
 			title?: string
 			artist?: string
 			album?: string
+			/** Duration of the track in seconds, e.g. from a playlist file */
+			duration?: number
+			/** Unsynchronized lyrics of the track */
+			lyrics?: string
 			artwork?: {
 				src: string
 				sizes?: string
@@ -21,6 +67,88 @@ declare global {
 			}[]
 		}
 	}
+
+	/**
+	 * Resolves the source of a track right before it loads.
+	 * Results are cached until they expire, and resolved again when the source fails to load.
+	 * @callback TrackSourceResolver
+	 * @param {QueueItem} track - The track to resolve
+	 * @returns {Promise<string | Blob | ResolvedTrackSource>} A URL, a Blob, or a URL with its expiry time
+	 */
+	type TrackSourceResolver = (track: QueueItem) => Promise<string | Blob | ResolvedTrackSource>
+
+	/**
+	 * A source resolved by a `TrackSourceResolver`, with its expiry time.
+	 */
+	interface ResolvedTrackSource {
+		/** The URL to play */
+		url: string
+		/** Time at which the URL expires, in milliseconds since the epoch. Defaults to the `sourceTTL` option of the player */
+		expiresAt?: number
+	}
+
+	/**
+	 * An encoding of a track, one of its `sources`.
+	 */
+	interface TrackSourceOption {
+		/** The URL of the encoding */
+		url: string
+		/** MIME type, e.g. `audio/ogg`. Sources without a type are assumed playable */
+		type?: string
+		/** Codecs, e.g. `opus` */
+		codecs?: string
+		/** Bitrate, in kbps */
+		bitrate?: number
+		/** Quality label to show to users, e.g. `Lossless` */
+		quality?: string
+	}
+
+	/**
+	 * A chapter of a track.
+	 */
+	interface TrackChapter {
+		/** The title of the chapter */
+		title?: string
+		/** Start of the chapter, in seconds from the start of the track (slice). The chapter ends where the next starts */
+		startTime: number
+	}
+
+	/**
+	 * Loudness information of a track, e.g. from ReplayGain tags.
+	 */
+	interface TrackLoudness {
+		/** ReplayGain track gain, in dB */
+		trackGain?: number
+		/** ReplayGain track peak, as a linear sample value (1 is full scale) */
+		trackPeak?: number
+		/** ReplayGain album gain, in dB */
+		albumGain?: number
+		/** ReplayGain album peak, as a linear sample value (1 is full scale) */
+		albumPeak?: number
+		/** Integrated loudness of the track, in LUFS */
+		integratedLoudness?: number
+	}
+
+	/**
+	 * Loudness of a track measured by the player from the decoded audio.
+	 */
+	interface LoudnessMeasurement {
+		/** Integrated loudness (EBU R128), in LUFS */
+		integratedLoudness: number
+		/** Sample peak, as a linear sample value (1 is full scale) */
+		peak: number
+	}
+
+	/**
+	 * Information about where the playback context queue comes from, e.g. an album or a playlist.
+	 * Generally used for rendering "Next from: ..." in the queue.
+	 */
+	interface PlaybackContext {
+		/** The title of the context, e.g. the album or playlist name */
+		title?: string
+		/** The kind of the context, e.g. `album` or `playlist` */
+		type?: string
+	}
 }
 
 export {}
@@ -0,0 +1,44 @@
+declare global {
+	/**
+	 * The nodes of an audio effect: a single node, or the first and last nodes of a sub-graph.
+	 */
+	type AudioEffectNodes = AudioNode | { input: AudioNode; output: AudioNode }
+
+	/**
+	 * Factory creating the nodes of an audio effect in the audio context of the player.
+	 * @callback AudioEffectFactory
+	 * @param {BaseAudioContext} context - The audio context of the player
+	 * @returns {AudioEffectNodes} The nodes of the effect
+	 */
+	type AudioEffectFactory = (context: BaseAudioContext) => AudioEffectNodes
+
+	/**
+	 * Information about an effect of the effects chain.
+	 */
+	interface AudioEffectInfo {
+		/** Unique ID of the effect in the chain */
+		id: string
+		/** Name of the effect */
+		name: string
+		/** Whether the effect is bypassed */
+		bypassed: boolean
+		/** First node of the effect, to change its parameters */
+		input: AudioNode
+		/** Last node of the effect */
+		output: AudioNode
+	}
+
+	/**
+	 * Options for adding an effect with `Player.addEffect`.
+	 */
+	interface AddEffectOptions {
+		/** Name of the effect. Defaults to the ID */
+		name?: string
+		/** Position in the chain. Defaults to the end of the chain */
+		position?: number
+		/** Whether the effect starts bypassed. Defaults to `false` */
+		bypassed?: boolean
+	}
+}
+
+export {}
@@ -0,0 +1,37 @@
+declare global {
+	/**
+	 * A band of the equalizer, backed by a `BiquadFilterNode`.
+	 */
+	interface EqualizerBand {
+		/** Filter type of the band */
+		type: BiquadFilterType
+		/** Center (or cutoff) frequency in Hz */
+		frequency: number
+		/** Gain in dB, only used by `peaking`, `lowshelf` and `highshelf` bands */
+		gain: number
+		/** Quality factor, the higher the narrower the band */
+		q: number
+	}
+
+	/**
+	 * A named set of equalizer bands.
+	 * Custom presets can be exported and imported as JSON.
+	 */
+	interface EqualizerPreset {
+		/** Name of the preset */
+		name: string
+		/** The bands of the preset, from low to high frequencies */
+		bands: EqualizerBand[]
+	}
+
+	/**
+	 * Names of the presets built into the equalizer.
+	 * - `flat`: no change
+	 * - `bass_boost`: boosts the low frequencies
+	 * - `vocal`: brings the mid frequencies forward, where voices are
+	 * - `loudness`: boosts lows and highs, for listening at low volume
+	 */
+	type BuiltInEqualizerPreset = 'flat' | 'bass_boost' | 'vocal' | 'loudness'
+}
+
+export {}
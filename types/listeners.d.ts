@@ -2,16 +2,84 @@ declare global {
 	/**
 	 * Listener function type for play state changes.
 	 * @callback PlayStateChangeListener
-	 * @param {boolean} isPlaying - The current playing state
+	 * @param {boolean} isPlaying - Whether audio is playing, true in the `playing` and `buffering` states
 	 */
 	type PlayStateChangeListener = (isPlaying: boolean) => void
 
+	/**
+	 * States of playback.
+	 * - `idle`: playback hasn't started yet
+	 * - `loading`: playback is requested and the track is loading, before it starts playing
+	 * - `buffering`: the track started playing and waits for more data
+	 * - `playing`: audio is playing
+	 * - `paused`: playback is paused
+	 * - `ended`: the end of the queue was reached
+	 * - `error`: playback stopped because of an error, see `onError`
+	 */
+	type PlaybackState = 'idle' | 'loading' | 'buffering' | 'playing' | 'paused' | 'ended' | 'error'
+
+	/**
+	 * Listener function type for playback state changes.
+	 * @callback StateChangeListener
+	 * @param {PlaybackState} state - The new state
+	 * @param {PlaybackState} previousState - The state before the change
+	 */
+	type StateChangeListener = (state: PlaybackState, previousState: PlaybackState) => void
+
+	/**
+	 * The sections of the queue besides the playback context.
+	 */
+	interface QueueSections {
+		/** The user queue ("Up Next"), played before the rest of the playback context */
+		upNext: QueueItem[]
+		/** Information about the playback context */
+		context: PlaybackContext | null
+	}
+
 	/**
 	 * Listener function type for queue changes.
 	 * @callback QueueChangeListener
-	 * @param {QueueItem[]} queue - The updated queue array
+	 * @param {QueueItem[]} queue - The updated playback context queue array
+	 * @param {QueueSections} sections - The user queue and the playback context information
+	 */
+	type QueueChangeListener = (queue: QueueItem[], sections: QueueSections) => void
+
+	/**
+	 * A single granular change applied to the queue.
+	 * Positions refer to the actual play order, as returned by `fetchQueue`.
+	 * - `replaced`: the whole queue was replaced
+	 * - `inserted`: a track was inserted at a position
+	 * - `removed`: the track at a position was removed
+	 * - `moved`: a track was moved from a position to another
+	 * - `reordered`: the play order changed (shuffle turned on or off), `ids` lists the new order
+	 * - `current_changed`: the current track changed. While a track of the user queue plays,
+	 *   `position` is the one of the last context track played (-1 if none)
+	 * - `up_next_changed`: the user queue changed, `items` lists all of it
+	 */
+	type QueueDiffOperation =
+		| { type: 'replaced'; items: QueueItem[] }
+		| { type: 'inserted'; position: number; item: QueueItem }
+		| { type: 'removed'; position: number; id: string }
+		| { type: 'moved'; from: number; to: number; id: string }
+		| { type: 'reordered'; ids: string[] }
+		| { type: 'current_changed'; position: number; id: string | null }
+		| { type: 'up_next_changed'; items: QueueItem[] }
+		| { type: 'updated'; id: string; item: QueueItem }
+
+	/**
+	 * Listener function type for granular queue changes.
+	 * @callback QueueDiffListener
+	 * @param {QueueDiffOperation[]} operations - The operations applied to the queue, in order
 	 */
-	type QueueChangeListener = (queue: QueueItem[]) => void
+	type QueueDiffListener = (operations: QueueDiffOperation[]) => void
+
+	/**
+	 * Provider function type for endless playback, called when the queue is about to run out.
+	 * @callback QueueExhaustingProvider
+	 * @param {QueueItem[]} queue - The current play queue, in the actual play order
+	 * @returns {Promise<QueueItem[]>} The tracks to append to the queue, empty if there are none
+	 */
+	type QueueExhaustingProvider = (queue: QueueItem[]) => Promise<QueueItem[]>
 
 	/**
 	 * Listener function type for current track changes.
@@ -30,6 +98,12 @@ declare global {
 		duration: number
 		/** Progress as a percentage (0-100) */
 		percentage: number
+		/** Current playback speed, 1 being the normal speed */
+		playbackRate: number
+		/** Time left until the end of the track at the current playback speed, in seconds */
+		timeRemaining: number
+		/** Parts of the track loaded and ready to play, in seconds from the start of the track */
+		buffered: { start: number; end: number }[]
 	}
 
 	/**
@@ -39,6 +113,31 @@ declare global {
 	 */
 	type PlaybackProgressListener = (progress: PlaybackProgress) => void
 
+	/**
+	 * Listener function type for buffering changes.
+	 * @callback BufferingChangeListener
+	 * @param {boolean} buffering - Whether playback is waiting for the track to load
+	 */
+	type BufferingChangeListener = (buffering: boolean) => void
+
+	/**
+	 * Playback quality of the session, since the player was created or the stats were reset.
+	 */
+	interface PlaybackStats {
+		/** Time from the first play request until audio played, in seconds. Null until then */
+		startupLatency: number | null
+		/** Number of times playback stopped to wait for data after a track had started, waiting after a seek doesn't count */
+		stallCount: number
+		/** Total time spent stalled, in seconds */
+		stallTime: number
+		/** Number of transitions to the next track at the end of a track */
+		transitions: number
+		/** Number of transitions where the next track had finished preloading */
+		preloadedTransitions: number
+		/** Whether the next track had finished preloading at the last transition. Null before any transition */
+		lastTransitionPreloaded: boolean | null
+	}
+
 	/**
 	 * Listener function type for shuffle state changes.
 	 * @callback ShuffleChangeListener
@@ -52,6 +151,108 @@ declare global {
 	 * @param {'off' | 'entire_queue' | 'single_track'} loopMode - The current loop mode
 	 */
 	type LoopChangeListener = (loopMode: 'off' | 'entire_queue' | 'single_track') => void
+
+	/**
+	 * A section of a track repeated by A–B repeat.
+	 */
+	interface ABRepeatRange {
+		/** Start of the section (A), in seconds */
+		start: number
+		/** End of the section (B), in seconds */
+		end: number
+	}
+
+	/**
+	 * Listener function type for A–B repeat changes.
+	 * @callback ABRepeatChangeListener
+	 * @param {ABRepeatRange | null} range - The repeated section, or null when not repeating
+	 */
+	type ABRepeatChangeListener = (range: ABRepeatRange | null) => void
+
+	/**
+	 * Codes of playback errors.
+	 * - `autoplay_blocked`: the browser blocked playback until the user interacts with the page
+	 * - `unsupported_format`: the browser can't play the track, or its URL can't be loaded
+	 * - `network`: the track failed to download, or its source couldn't be resolved
+	 * - `decode`: the track is corrupted and can't be decoded
+	 * - `aborted`: loading the track was aborted
+	 */
+	type PlayerErrorCode = 'autoplay_blocked' | 'unsupported_format' | 'network' | 'decode' | 'aborted'
+
+	/**
+	 * A playback error, with what the player did about it following the error policy.
+	 */
+	interface PlayerError {
+		/** Code of the error */
+		code: PlayerErrorCode
+		/** Description of the error */
+		message: string
+		/** The track which failed */
+		track: QueueItem | null
+		/** What the player does about the error, `none` when it doesn't act (autoplay blocked or aborted) */
+		action: 'retry' | 'skip' | 'stop' | 'none'
+		/** Number of retries of the track before this error */
+		attempt: number
+		/** The underlying error, if any */
+		cause?: unknown
+	}
+
+	/**
+	 * Listener function type for playback errors.
+	 * @callback ErrorListener
+	 * @param {PlayerError} error - The error
+	 */
+	type ErrorListener = (error: PlayerError) => void
+
+	/**
+	 * Listener function type for chapter changes.
+	 * @callback ChapterChangeListener
+	 * @param {TrackChapter | null} chapter - The chapter at the playback position, or null when outside of any chapter
+	 */
+	type ChapterChangeListener = (chapter: TrackChapter | null) => void
+
+	/**
+	 * State of a running sleep timer.
+	 */
+	interface SleepTimerState {
+		/** Whether the timer stops after a duration or after tracks */
+		type: 'duration' | 'tracks'
+		/** Time until playback stops in seconds, or null while it depends on tracks after the current one */
+		timeRemaining: number | null
+		/** Tracks left to finish before playback stops, including the current one, or null for `duration` timers */
+		tracksRemaining: number | null
+	}
+
+	/**
+	 * Listener function type for sleep timer changes and countdown.
+	 * @callback SleepTimerChangeListener
+	 * @param {SleepTimerState | null} timer - The state of the sleep timer, or null when there is none
+	 */
+	type SleepTimerChangeListener = (timer: SleepTimerState | null) => void
+
+	/**
+	 * Listener function type for volume changes.
+	 * @callback VolumeChangeListener
+	 * @param {number} volume - The current volume, from 0 to 1
+	 * @param {boolean} muted - The current mute state
+	 */
+	type VolumeChangeListener = (volume: number, muted: boolean) => void
+
+	/**
+	 * Listener function type for playback speed changes.
+	 * @callback PlaybackRateChangeListener
+	 * @param {number} playbackRate - The current playback speed, 1 being the normal speed
+	 * @param {boolean} preservePitch - Whether the pitch is kept at the current speed
+	 */
+	type PlaybackRateChangeListener = (playbackRate: number, preservePitch: boolean) => void
+
+	/**
+	 * Listener function type for analyser frames.
+	 * @callback AnalyserFrameListener
+	 * @param {Uint8Array} data - Frequency magnitudes or waveform samples of the frame, from 0 to 255.
+	 *   The array is reused for every frame, copy it to keep it
+	 */
+	type AnalyserFrameListener = (data: Uint8Array) => void
 }
 
 export {}
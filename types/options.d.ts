@@ -0,0 +1,183 @@
+declare global {
+	/**
+	 * Playback engine of the player.
+	 * - `media_element`: plays tracks with HTML audio elements, starting the next track when the current one ends.
+	 *   A–B repeat isn't supported
+	 * - `web_audio`: decodes tracks into audio buffers and starts the next track at the exact sample
+	 *   the current one ends, trimming encoder padding. Tracks are fully downloaded before playing
+	 */
+	type PlaybackEngine = 'media_element' | 'web_audio'
+
+	/**
+	 * Shape of the gain ramps of a crossfade.
+	 * - `linear`: gains change linearly, with a slight dip in loudness halfway
+	 * - `equal_power`: keeps the loudness constant during the fade
+	 * - `exponential`: gains change linearly in decibels
+	 */
+	type CrossfadeCurve = 'linear' | 'equal_power' | 'exponential'
+
+	/**
+	 * Crossfade settings of the player.
+	 */
+	interface CrossfadeOptions {
+		/** Duration of the crossfade in seconds, 0 disables it */
+		duration: number
+		/** Shape of the gain ramps */
+		curve: CrossfadeCurve
+		/** Whether manual track changes (skip, previous, jumping to a track) crossfade too */
+		onSkip: boolean
+	}
+
+	/**
+	 * Loudness normalization settings of the player.
+	 */
+	interface NormalizationOptions {
+		/**
+		 * Normalization mode
+		 * - `off`: tracks play at their own level
+		 * - `track`: every track is brought to the target loudness
+		 * - `album`: tracks of an album share the album gain, keeping their relative levels
+		 */
+		mode: 'off' | 'track' | 'album'
+		/** Target loudness, in LUFS. ReplayGain values are relative to -18 LUFS */
+		targetLoudness: number
+		/**
+		 * Whether to measure the loudness of tracks without loudness information, results are cached by URL.
+		 * Defaults to true with the `web_audio` engine, which measures the audio it already decoded,
+		 * and to false with the `media_element` engine, where the measurement downloads and decodes the whole track again
+		 */
+		analyze: boolean
+	}
+
+	/**
+	 * Which of the sources of a track the player prefers.
+	 * - `auto`: the first playable source, in the order of the list
+	 * - `data_saver`: the playable source with the lowest bitrate
+	 * - `lossless`: lossless sources, then the playable source with the highest bitrate
+	 */
+	type QualityPreference = 'auto' | 'data_saver' | 'lossless'
+
+	/**
+	 * What the player does when the current track fails to play.
+	 */
+	interface ErrorPolicy {
+		/**
+		 * Action on errors
+		 * - `retry`: loads the track again after a delay, then skips it once out of retries
+		 * - `skip`: skips to the next track
+		 * - `stop`: stops playback
+		 */
+		action: 'retry' | 'skip' | 'stop'
+		/** Number of retries of a track before skipping it */
+		maxRetries: number
+		/** Delay before the first retry in seconds, doubling with each retry */
+		retryDelay: number
+		/** Number of tracks failing in a row after which playback stops, so a queue of broken tracks doesn't play on forever */
+		maxConsecutiveFailures: number
+	}
+
+	/**
+	 * Options for creating a `Player` instance.
+	 */
+	interface PlayerOptions {
+		/** Playback engine. Defaults to `media_element` */
+		engine?: PlaybackEngine
+		/** Crossfade settings. Crossfade is disabled by default */
+		crossfade?: Partial<CrossfadeOptions>
+		/** Initial volume, from 0 to 1. Defaults to `1` */
+		volume?: number
+		/** Whether the output starts muted. Defaults to `false` */
+		muted?: boolean
+		/** Duration of the fade when resuming or pausing with `togglePlaying`, in seconds. Defaults to `0` (no fade) */
+		pauseFade?: number
+		/** Loudness normalization settings. Normalization is off by default */
+		normalization?: Partial<NormalizationOptions>
+		/** Storage adapter to autosave the session to. Autosave is disabled when omitted */
+		storage?: PlayerStorageAdapter
+		/** Strategy deciding the shuffled play order. Defaults to a uniform shuffle */
+		shuffleStrategy?: ShuffleStrategy
+		/** Seed for the shuffle random number generator, for reproducible shuffles. Defaults to `Math.random` */
+		shuffleSeed?: number
+		/**
+		 * Whether to fill the missing metadata of tracks from their embedded tags. Defaults to `false`.
+		 * Tags are read with HTTP range requests, cross-origin tracks need CORS
+		 */
+		readTags?: boolean
+		/** How long sources resolved by `QueueItem.source` resolvers stay valid, in seconds. Defaults to `600` */
+		sourceTTL?: number
+		/** Which of the sources of a track to prefer. Defaults to `auto` */
+		quality?: QualityPreference
+		/** What to do when a track fails to play. Defaults to skipping, stopping after 5 failing tracks in a row */
+		errorPolicy?: Partial<ErrorPolicy>
+	}
+
+	/**
+	 * Options for jumping to a specific track with `Player.playAt`.
+	 */
+	interface PlayAtOptions {
+		/** Whether to start playing the track right away. Defaults to `true` */
+		autoplay?: boolean
+		/** Position to start the track from, in seconds. Defaults to `0` */
+		startTime?: number
+	}
+
+	/**
+	 * Options for changing the playback speed with `Player.setPlaybackRate`.
+	 */
+	interface PlaybackRateOptions {
+		/** Whether to keep the pitch at speeds other than 1. Keeps the current setting when omitted, `true` initially */
+		preservePitch?: boolean
+	}
+
+	/**
+	 * Options for analyser frames subscribed with `Player.onAnalyserFrame`.
+	 */
+	interface AnalyserOptions {
+		/** Size of the FFT, a power of two between 32 and 32768. Defaults to `2048` */
+		fftSize?: number
+		/** Averaging with the previous frame, from 0 to 1. Defaults to `0.8` */
+		smoothing?: number
+		/**
+		 * Kind of data of the frames. Defaults to `frequency`
+		 * - `frequency`: magnitude of each frequency bin, `fftSize / 2` values
+		 * - `time`: waveform samples, `fftSize` values
+		 */
+		type?: 'frequency' | 'time'
+	}
+
+	/**
+	 * Options for repeating a section of a track with `Player.setABRepeat`.
+	 * Only the `web_audio` engine supports A–B repeat, see `Player.canABRepeat`.
+	 */
+	interface ABRepeatOptions {
+		/**
+		 * What seeking outside the section does. Defaults to `clear`
+		 * - `clear`: stops repeating and seeks
+		 * - `clamp`: keeps repeating and seeks to the nearest position inside the section
+		 */
+		onSeekOutside?: 'clear' | 'clamp'
+	}
+
+	/**
+	 * Options for starting a sleep timer with `Player.setSleepTimer`.
+	 * - `duration`: stops after a number of minutes
+	 * - `end_of_track`: stops at the end of the current track
+	 * - `tracks`: stops after a number of tracks, counting the current one
+	 *
+	 * `fadeOut` is the duration of the fade-out before stopping, in seconds. Defaults to `0` (no fade)
+	 */
+	type SleepTimerOptions =
+		| { type: 'duration'; minutes: number; fadeOut?: number }
+		| { type: 'end_of_track'; fadeOut?: number }
+		| { type: 'tracks'; count: number; fadeOut?: number }
+
+	/**
+	 * Options for the queue exhaustion provider registered with `Player.onQueueExhausting`.
+	 */
+	interface QueueExhaustingOptions {
+		/** Number of tracks left after the current one at which the provider is called. Defaults to `2` */
+		threshold?: number
+	}
+}
+
+export {}
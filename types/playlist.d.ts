@@ -0,0 +1,56 @@
+declare global {
+	/**
+	 * Playlist file formats the player can read and write.
+	 * - `m3u`: M3U and M3U8, with `#EXTINF` information
+	 * - `pls`: PLS (`[playlist]` sections)
+	 * - `xspf`: XML Shareable Playlist Format
+	 * - `cue`: CUE sheets, each track being a time range of a file
+	 */
+	type PlaylistFormat = 'm3u' | 'pls' | 'xspf' | 'cue'
+
+	/**
+	 * Options for parsing a playlist file.
+	 */
+	interface PlaylistParseOptions {
+		/** Format of the file. Detected from the content when not given */
+		format?: PlaylistFormat
+		/** URL relative entries are resolved against, usually the URL of the playlist file.
+		 * Relative entries are kept as they are without it.
+		 */
+		baseUrl?: string
+	}
+
+	/**
+	 * A problem with an entry of a playlist file. The entry is skipped or read partially.
+	 */
+	interface PlaylistWarning {
+		/** Line of the entry in the file, starting at 1. Not set for XML playlists */
+		line?: number
+		/** Description of the problem */
+		message: string
+	}
+
+	/**
+	 * A parsed playlist file, ready for `Player.replaceQueue`.
+	 */
+	interface ParsedPlaylist {
+		/** The format the file was read as */
+		format: PlaylistFormat
+		/** Title of the playlist, if the file has one */
+		title?: string
+		/** The tracks of the playlist, in order */
+		items: QueueItem[]
+		/** Problems with entries of the file */
+		warnings: PlaylistWarning[]
+	}
+
+	/**
+	 * Options for writing a playlist file.
+	 */
+	interface PlaylistSerializeOptions {
+		/** Title of the playlist */
+		title?: string
+	}
+}
+
+export {}
@@ -0,0 +1,12 @@
+declare global {
+	/**
+	 * A shuffle strategy, deciding the play order of the tracks to be shuffled.
+	 * @callback ShuffleStrategy
+	 * @param {QueueItem[]} items - The tracks to shuffle, in their current order
+	 * @param {() => number} random - Random number generator returning values in [0, 1)
+	 * @returns {number[]} A permutation of the indexes of `items`, in the new play order
+	 */
+	type ShuffleStrategy = (items: QueueItem[], random: () => number) => number[]
+}
+
+export {}
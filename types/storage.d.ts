@@ -0,0 +1,51 @@
+declare global {
+	/**
+	 * Serializable snapshot of a player session, produced by `Player.exportState`.
+	 */
+	interface PlayerStateSnapshot {
+		/** Schema version of the snapshot */
+		version: 2
+		/** The playback context queue items, in their original order */
+		queue: QueueItem[]
+		/** The user queue ("Up Next") items, in play order */
+		upNext: QueueItem[]
+		/** Information about the playback context */
+		context: PlaybackContext | null
+		/** The actual play order, as indexes of `queue` */
+		order: number[]
+		/** Position of the current track in the play order, or of the last context track played when
+		 * the current track is from the user queue (-1 if none)
+		 */
+		currentPlayingPointer: number
+		/** Whether the current track is the first item of `upNext`, playing outside of the context */
+		currentFromUpNext?: boolean
+		/** Playback position inside the current track, in seconds */
+		currentTime: number
+		/** Shuffle flag */
+		shuffle: boolean
+		/** Loop mode */
+		loop: 'off' | 'entire_queue' | 'single_track'
+	}
+
+	/**
+	 * Storage backend used by the player to persist its session.
+	 */
+	interface PlayerStorageAdapter {
+		/**
+		 * Loads the saved snapshot.
+		 * @returns {Promise<unknown>} The saved snapshot, or null if nothing was saved
+		 */
+		load(): Promise<unknown>
+		/**
+		 * Saves a snapshot, replacing the previous one.
+		 * @param {PlayerStateSnapshot} snapshot - The snapshot to save
+		 */
+		save(snapshot: PlayerStateSnapshot): Promise<void>
+		/**
+		 * Removes the saved snapshot.
+		 */
+		clear(): Promise<void>
+	}
+}
+
+export {}
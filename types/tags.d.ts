@@ -0,0 +1,26 @@
+declare global {
+	/**
+	 * Information read from the tags embedded in an audio file (ID3, Vorbis comments, MP4 atoms or RIFF INFO).
+	 */
+	interface TrackTags {
+		/** Title of the track */
+		title?: string
+		/** Artist of the track */
+		artist?: string
+		/** Album of the track */
+		album?: string
+		/** Duration of the track, in seconds */
+		duration?: number
+		/** Embedded artwork, as blob URLs. Front covers come first */
+		artwork?: {
+			src: string
+			type?: 'image/jpeg' | 'image/png'
+		}[]
+		/** ReplayGain information of the track */
+		loudness?: TrackLoudness
+		/** Unsynchronized lyrics of the track */
+		lyrics?: string
+	}
+}
+
+export {}